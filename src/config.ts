@@ -37,15 +37,29 @@ export const config = {
     port: env('MCP_PORT', 3000),
     host: env('MCP_HOST', '0.0.0.0'),
     logLevel: env('LOG_LEVEL', 'info'),
-    apiKey: env('MCP_API_KEY', '')
+    apiKey: env('MCP_API_KEY', ''),
+    transport: env('MCP_TRANSPORT', 'http'),
+    stateful: env('MCP_STATEFUL', false),
+    sessionIdleTimeout: env('MCP_SESSION_IDLE_TIMEOUT', 1800000),
+    toolDiscovery: env('TOOL_DISCOVERY', true),
+    hotReload: env('HOT_RELOAD', false)
+  },
+  plugins: {
+    modules: env('MCP_PLUGINS', '')
+  },
+  skills: {
+    enabled: env('SKILLS_ENABLED', true)
   },
   rateLimit: {
     maxConcurrent: env('RATE_LIMIT_CONCURRENT', 5),
-    minTime: env('RATE_LIMIT_MIN_TIME', 100)
+    minTime: env('RATE_LIMIT_MIN_TIME', 100),
+    transcriptConcurrent: env('RATE_LIMIT_TRANSCRIPT_CONCURRENT', 3),
+    llmConcurrent: env('RATE_LIMIT_LLM_CONCURRENT', 2)
   },
   timeout: {
     default: env('TIMEOUT_DEFAULT', 30000),
-    long: env('TIMEOUT_LONG', 120000)
+    long: env('TIMEOUT_LONG', 120000),
+    digest: env('TIMEOUT_DIGEST', 600000)
   },
   google: {
     clientId: env('GOOGLE_CLIENT_ID', ''),
@@ -61,12 +75,37 @@ export const config = {
     url: env('QDRANT_URL', 'http://localhost:6333'),
     apiKey: env('QDRANT_API_KEY', ''),
     collection: env('QDRANT_COLLECTION', 'default'),
+    embeddingProvider: env('EMBEDDING_PROVIDER', 'openai'),
     embeddingModel: env('EMBEDDING_MODEL', 'text-embedding-3-small'),
-    embeddingEndpoint: env('EMBEDDING_ENDPOINT', 'https://api.openai.com/v1/embeddings')
+    embeddingEndpoint: env('EMBEDDING_ENDPOINT', ''),
+    embeddingApiKey: env('EMBEDDING_API_KEY', ''),
+    embeddingDimensions: env('EMBEDDING_DIMENSIONS', 0),
+    embeddingBatchSize: env('EMBEDDING_BATCH_SIZE', 32),
+    embeddingCacheSize: env('EMBEDDING_CACHE_SIZE', 1000),
+    embeddingCacheDir: env('EMBEDDING_CACHE_DIR', ''),
+    embeddingCacheMaxSizeMb: env('EMBEDDING_CACHE_MAX_SIZE_MB', 200),
+    defaultChunkSize: env('QDRANT_DEFAULT_CHUNK_SIZE', 1000),
+    defaultChunkOverlap: env('QDRANT_DEFAULT_CHUNK_OVERLAP', 200),
+    rerankEndpoint: env('RERANK_ENDPOINT', ''),
+    rerankModel: env('RERANK_MODEL', ''),
+    rerankApiKey: env('RERANK_API_KEY', '')
   },
   youtube: {
     defaultVideosPerChannel: env('YOUTUBE_DEFAULT_VIDEOS_PER_CHANNEL', 5),
-    defaultMaxChannels: env('YOUTUBE_DEFAULT_MAX_CHANNELS', 50)
+    defaultMaxChannels: env('YOUTUBE_DEFAULT_MAX_CHANNELS', 50),
+    stateFile: env('YOUTUBE_STATE_FILE', 'data/youtube-state.json'),
+    channelGroupsFile: env('YOUTUBE_CHANNEL_GROUPS_FILE', 'data/youtube-channels.json'),
+    channelConcurrency: env('YOUTUBE_CHANNEL_CONCURRENCY', 4),
+    quotaDailyLimit: env('YOUTUBE_QUOTA_DAILY_LIMIT', 10000),
+    quotaReserve: env('YOUTUBE_QUOTA_RESERVE', 500),
+    fetchStrategy: env('YOUTUBE_FETCH_STRATEGY', 'api'),
+    feedBaseUrl: env('YOUTUBE_FEED_BASE_URL', 'https://www.youtube.com/feeds/videos.xml')
+  },
+  cache: {
+    enabled: env('CACHE_ENABLED', true),
+    dir: env('CACHE_DIR', 'data/cache'),
+    ttlHours: env('CACHE_TTL_HOURS', 168),
+    maxSizeMb: env('CACHE_MAX_SIZE_MB', 200)
   },
   gmail: {
     enabled: env('GMAIL_ENABLED', true),
@@ -1,9 +1,10 @@
 import { startMcpServer, stopMcpServer } from './mcp-server.js';
 import { logger } from './utils/logger.js';
 import { config } from './config.js';
+import type { TransportMode } from './types/index.js';
 
 /**
- * Main entry point for the MCP Server (HTTP only)
+ * Main entry point for the MCP Server (Streamable HTTP or stdio)
  *
  * This server implements the "code execution with MCP" approach with official MCP SDK:
  * - Uses official MCP TypeScript SDK for protocol compliance
@@ -11,14 +12,50 @@ import { config } from './config.js';
  * - Lazy loading: model imports only what it needs, when it needs it
  * - Drastically reduces token usage (75-87% reduction)
  * - Progressive disclosure through filesystem-based tool discovery
- * - Bearer token authentication on all /mcp endpoints
+ * - Bearer token authentication on all /mcp endpoints (HTTP mode)
+ *
+ * Transport is selected with `--transport stdio|http` (overrides MCP_TRANSPORT).
+ */
+
+const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http'];
+
+/**
+ * Resolve transport from CLI args (`--transport stdio` or `--transport=stdio`),
+ * falling back to MCP_TRANSPORT from config
  */
+function resolveTransport(argv: string[]): TransportMode {
+  let value: string = config.server.transport;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--transport' && argv[i + 1]) {
+      value = argv[i + 1];
+    } else if (argv[i].startsWith('--transport=')) {
+      value = argv[i].slice('--transport='.length);
+    }
+  }
+
+  const normalized = value.toLowerCase() as TransportMode;
+
+  if (!TRANSPORT_MODES.includes(normalized)) {
+    throw new Error(`Unknown transport "${value}". Expected one of: ${TRANSPORT_MODES.join(', ')}`);
+  }
+
+  return normalized;
+}
 
 async function main() {
   logger.info('Starting MCP Server with Anthropic guidelines + MCP SDK');
 
-  // Fail-fast: MCP_API_KEY is required for Bearer token auth
-  if (!config.server.apiKey) {
+  let transport: TransportMode;
+  try {
+    transport = resolveTransport(process.argv.slice(2));
+  } catch (error: any) {
+    logger.fatal(error.message);
+    process.exit(1);
+  }
+
+  // Fail-fast: MCP_API_KEY is required for Bearer token auth (HTTP only)
+  if (transport === 'http' && !config.server.apiKey) {
     logger.fatal('MCP_API_KEY is not set. Server requires a Bearer token for authentication. Set MCP_API_KEY in your environment or .env file.');
     process.exit(1);
   }
@@ -33,7 +70,7 @@ async function main() {
   }
 
   try {
-    await startMcpServer();
+    await startMcpServer(transport);
 
     logger.info('MCP Server successfully started and ready');
 
@@ -1,24 +1,51 @@
 /**
- * MCP Server - HTTP only with Bearer token authentication
+ * MCP Server - Streamable HTTP or stdio transport
  *
- * Streamable HTTP transport for production (Docker, remote access).
- * All /mcp endpoints require Authorization: Bearer <MCP_API_KEY> header.
+ * HTTP: Streamable HTTP transport for production (Docker, remote access).
+ * Stateless by default; MCP_STATEFUL=true enables sessions, SSE streams
+ * and Last-Event-ID resumption. All /mcp endpoints require Authorization: Bearer <MCP_API_KEY> header.
  * /health endpoint is unauthenticated (for Docker healthcheck).
+ *
+ * stdio: single long-lived server for desktop MCP clients that launch
+ * the binary locally. No port, no API key - stdout is reserved for JSON-RPC.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
+  Prompt,
+  McpError,
+  isInitializeRequest,
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
   Tool
 } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { randomUUID } from 'node:crypto';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { getAllServers } from './servers/index.js';
+import { ZodObject, type ZodType } from 'zod';
+import { loadServers } from './servers/index.js';
+import { getSkill, getSkills, type SkillInfo } from './skills/index.js';
+import { watchServers } from './servers/hot-reload.js';
 import { config } from './config.js';
 import { logger } from './utils/logger.js';
+import { InMemoryEventStore } from './utils/event-store.js';
+import { createToolContext } from './utils/tool-factory.js';
+import { toMcpToolName } from './utils/tool-names.js';
+import { ToolError, ToolValidationError } from './types/index.js';
+import type { ServerMetadata, TransportMode } from './types/index.js';
 
-import type { Request, Response, NextFunction } from 'express';
+import type { Express, Request, Response, NextFunction } from 'express';
+import type { Server as HttpServer } from 'node:http';
 
 /**
  * Tool registry entry - metadata only, implementation lazy-loaded
@@ -26,6 +53,7 @@ import type { Request, Response, NextFunction } from 'express';
 interface ToolRegistryEntry {
   serverName: string;
   toolName: string;
+  modulePath: string;
   metadata: Tool;
 }
 
@@ -36,45 +64,81 @@ interface ToolRegistryEntry {
 const toolRegistry = new Map<string, ToolRegistryEntry>();
 
 /**
- * Convert camelCase to snake_case for MCP tool names
- * Example: getLatestVideos → get_latest_videos
+ * Long-lived server instance used by the stdio transport
  */
-function camelToSnake(str: string): string {
-  return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
-}
+let stdioServer: Server | null = null;
 
 /**
- * Normalize server name for MCP tool name prefix
- * Converts kebab-case to snake_case: qdrant-rag → qdrant_rag
+ * Stateful HTTP session - one Server + transport per MCP session
  */
-function normalizeServerName(name: string): string {
-  return name.replace(/-/g, '_');
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastActivity: number;
+  /** Requests still being answered (tool calls, open GET SSE streams) */
+  openRequests: number;
 }
 
+/**
+ * Active sessions keyed by mcp-session-id (stateful HTTP mode only)
+ */
+const sessions = new Map<string, HttpSession>();
+
+let sessionSweepTimer: NodeJS.Timeout | null = null;
+let httpServer: HttpServer | null = null;
+let stopWatcher: (() => void) | null = null;
+
 /**
  * Initialize tool registry with metadata (NOT implementations)
  */
 async function initializeToolRegistry() {
-  const servers = getAllServers();
+  const servers = await loadServers();
 
   logger.info({ serverCount: servers.length }, 'Initializing tool registry');
 
+  const entries = await buildToolRegistry(servers);
+  for (const [name, entry] of entries) {
+    toolRegistry.set(name, entry);
+  }
+
+  logger.info({ toolCount: toolRegistry.size }, 'Tool registry initialized');
+}
+
+/**
+ * Build registry entries for the given servers.
+ * Duplicate names and tools whose metadata fails to load are logged and skipped.
+ */
+async function buildToolRegistry(servers: ServerMetadata[]): Promise<Map<string, ToolRegistryEntry>> {
+  const entries = new Map<string, ToolRegistryEntry>();
+
   for (const serverMeta of servers) {
     for (const toolName of serverMeta.tools) {
-      const mcpToolName = `${normalizeServerName(serverMeta.name)}__${camelToSnake(toolName)}`;
+      const mcpToolName = toMcpToolName(serverMeta.name, toolName);
+      const modulePath = serverMeta.toolModules?.[toolName] ?? `./servers/${serverMeta.name}/${toolName}.js`;
+
+      if (entries.has(mcpToolName)) {
+        logger.error({
+          tool: mcpToolName,
+          server: serverMeta.name,
+          registeredBy: entries.get(mcpToolName)!.serverName
+        }, 'Duplicate tool name, skipping');
+        continue;
+      }
 
       try {
-        const metadata = await loadToolMetadata(serverMeta.name, toolName);
+        const metadata = await loadToolMetadata(serverMeta.name, toolName, modulePath);
 
-        toolRegistry.set(mcpToolName, {
+        entries.set(mcpToolName, {
           serverName: serverMeta.name,
           toolName: toolName,
+          modulePath,
           metadata
         });
 
         logger.debug({
           tool: mcpToolName,
           hasInputSchema: !!metadata.inputSchema,
+          hasOutputSchema: !!metadata.outputSchema,
           hasDescription: !!metadata.description
         }, 'Registered tool metadata');
 
@@ -88,46 +152,97 @@ async function initializeToolRegistry() {
     }
   }
 
-  logger.info({ toolCount: toolRegistry.size }, 'Tool registry initialized');
+  return entries;
 }
 
 /**
- * Load tool metadata (schema + description) WITHOUT loading implementation
+ * Re-discover servers after a file change and swap the registry contents.
+ * Connected sessions are notified with notifications/tools/list_changed.
  */
-async function loadToolMetadata(serverName: string, toolName: string): Promise<Tool> {
-  const modulePath = `./servers/${serverName}/${toolName}.js`;
-  const module = await import(modulePath);
+async function reloadToolRegistry(changedFiles: string[]) {
+  logger.info({ changedFiles }, 'Reloading tool registry');
 
-  const tool = module[toolName] || module.default;
+  const servers = await loadServers();
+  const entries = await buildToolRegistry(servers);
 
-  if (!tool) {
-    throw new Error(`Tool ${toolName} not found in ${modulePath}`);
+  toolRegistry.clear();
+  for (const [name, entry] of entries) {
+    toolRegistry.set(name, entry);
   }
 
-  let jsonSchema: any = { type: 'object', properties: {} };
+  logger.info({ toolCount: toolRegistry.size }, 'Tool registry reloaded');
 
-  if (tool.inputSchema) {
-    const fullSchema: any = zodToJsonSchema(tool.inputSchema, {
-      name: `${normalizeServerName(serverName)}__${camelToSnake(toolName)}_input`,
-      $refStrategy: 'none'
-    });
+  await notifyToolListChanged();
+}
 
-    if (fullSchema.definitions && fullSchema.$ref) {
-      const refKey = fullSchema.$ref.replace('#/definitions/', '');
-      jsonSchema = fullSchema.definitions[refKey] || fullSchema;
-      delete jsonSchema.$schema;
-    } else {
-      jsonSchema = fullSchema;
+/**
+ * Send notifications/tools/list_changed to every connected long-lived server
+ * (stdio + stateful HTTP sessions). Stateless requests have nobody to notify.
+ */
+async function notifyToolListChanged() {
+  const servers = [
+    ...(stdioServer ? [stdioServer] : []),
+    ...Array.from(sessions.values()).map(session => session.server)
+  ];
+
+  await Promise.all(servers.map(async (server) => {
+    try {
+      await server.sendToolListChanged();
+    } catch (error: any) {
+      logger.warn({ error: error.message }, 'Failed to send tools/list_changed');
     }
+  }));
+
+  logger.debug({ recipients: servers.length }, 'Sent tools/list_changed');
+}
+
+/**
+ * Load tool metadata (input/output schemas + description) WITHOUT loading implementation
+ */
+async function loadToolMetadata(serverName: string, toolName: string, modulePath: string): Promise<Tool> {
+  const module = await import(modulePath);
+
+  const tool = module[toolName] || module.default;
+
+  if (!tool) {
+    throw new Error(`Tool ${toolName} not found in ${modulePath}`);
   }
 
+  const mcpToolName = toMcpToolName(serverName, toolName);
   const description = extractToolDescription(tool, serverName, toolName);
 
-  return {
-    name: `${normalizeServerName(serverName)}__${camelToSnake(toolName)}`,
+  const metadata: Tool = {
+    name: mcpToolName,
     description,
-    inputSchema: jsonSchema as any
+    inputSchema: tool.inputSchema
+      ? toJsonSchema(tool.inputSchema, `${mcpToolName}_input`)
+      : { type: 'object', properties: {} }
   };
+
+  if (tool.outputSchema) {
+    metadata.outputSchema = toJsonSchema(tool.outputSchema, `${mcpToolName}_output`);
+  }
+
+  return metadata;
+}
+
+/**
+ * Convert a Zod schema to an inline JSON Schema object for tools/list
+ */
+function toJsonSchema(schema: ZodType, name: string): any {
+  const fullSchema: any = zodToJsonSchema(schema, {
+    name,
+    $refStrategy: 'none'
+  });
+
+  if (fullSchema.definitions && fullSchema.$ref) {
+    const refKey = fullSchema.$ref.replace('#/definitions/', '');
+    const jsonSchema = fullSchema.definitions[refKey] || fullSchema;
+    delete jsonSchema.$schema;
+    return jsonSchema;
+  }
+
+  return fullSchema;
 }
 
 /**
@@ -139,14 +254,155 @@ function extractToolDescription(tool: any, serverName: string, toolName: string)
   return `${serverName} ${toolName} tool`;
 }
 
+/**
+ * Forward tool progress to the client as notifications/progress.
+ * Delivery failures are logged, never propagated into the tool.
+ */
+async function sendProgress(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  progressToken: ProgressToken,
+  toolName: string,
+  progress: number,
+  total?: number,
+  message?: string
+) {
+  try {
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total, message }
+    });
+  } catch (error: any) {
+    logger.warn({ tool: toolName, error: error.message }, 'Failed to send progress notification');
+  }
+}
+
+/**
+ * Build an isError tool result. ToolError details (retryable, cause) go into _meta.error,
+ * since structuredContent is reserved for data matching the tool's outputSchema.
+ */
+function toolErrorResult(toolName: string, error: unknown, message: string, aborted: boolean): CallToolResult {
+  const toolError = error instanceof ToolError ? error : undefined;
+  const retryable = toolError?.retryable ?? false;
+
+  return {
+    content: [{
+      type: 'text' as const,
+      text: `Error executing ${toolName}: ${message}${retryable ? ' (retryable)' : ''}`
+    }],
+    isError: true,
+    _meta: {
+      error: {
+        tool: toolName,
+        type: aborted ? 'AbortError' : toolError?.name ?? 'Error',
+        message,
+        retryable,
+        ...(toolError?.cause && {
+          cause: { name: toolError.cause.name, message: toolError.cause.message }
+        }),
+        ...(toolError instanceof ToolValidationError && { issues: toolError.issues })
+      }
+    }
+  };
+}
+
+/**
+ * Import the implementation of a registered tool
+ */
+async function loadToolImplementation(mcpToolName: string, entry: ToolRegistryEntry) {
+  logger.debug({ tool: mcpToolName, module: entry.modulePath }, 'Lazy loading tool implementation');
+
+  const module = await import(entry.modulePath);
+  const tool = module[entry.toolName] || module.default;
+
+  if (!tool || typeof tool.call !== 'function') {
+    throw new Error(`Tool ${mcpToolName} does not have a call function (use createTool)`);
+  }
+
+  return tool;
+}
+
+/**
+ * Call another registered tool from inside a tool (used by skills).
+ * Shares the caller's signal; errors propagate to the calling tool.
+ */
+async function callRegisteredTool(mcpToolName: string, args: Record<string, unknown>, signal: AbortSignal) {
+  const entry = toolRegistry.get(mcpToolName);
+
+  if (!entry) {
+    throw new ToolError(mcpToolName, `Unknown tool: ${mcpToolName}`);
+  }
+
+  const tool = await loadToolImplementation(mcpToolName, entry);
+
+  logger.debug({ tool: mcpToolName }, 'Nested tool call');
+  return tool.call(args, { signal });
+}
+
+/**
+ * Describe a skill as an MCP prompt - arguments come from the skill's input schema
+ */
+function skillToPrompt(skill: SkillInfo): Prompt {
+  const shape = skill.inputSchema instanceof ZodObject ? skill.inputSchema.shape : {};
+
+  return {
+    name: skill.metadata.name,
+    description: skill.metadata.description,
+    arguments: Object.entries(shape).map(([name, schema]) => ({
+      name,
+      description: (schema as ZodType).description,
+      required: !(schema as ZodType).isOptional()
+    }))
+  };
+}
+
+/**
+ * Render a skill prompt: which composite tool to call, with what arguments,
+ * and the steps it runs
+ */
+function renderSkillPrompt(skill: SkillInfo, args: Record<string, string>): GetPromptResult {
+  const provided = Object.entries(args).map(([name, value]) => `- ${name}: ${value}`);
+  const steps = skill.steps.map((step, index) =>
+    `${index + 1}. ${step.description}${step.tool ? ` (${step.tool})` : ''}`
+  );
+
+  const text = [
+    `Run the "${skill.metadata.name}" workflow: ${skill.metadata.description}.`,
+    '',
+    `Call the tool ${skill.toolName} with these arguments:`,
+    ...(provided.length > 0 ? provided : ['- (none provided, use defaults)']),
+    '',
+    'The tool runs these steps:',
+    ...steps
+  ].join('\n');
+
+  return {
+    description: skill.metadata.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
+
+/**
+ * Human-readable reason for an aborted tool call
+ */
+function describeAbort(reason: unknown, timeoutMs: number): string {
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return `Tool timed out after ${timeoutMs}ms`;
+  }
+  return 'Tool call cancelled';
+}
+
 /**
  * Create a new MCP Server instance with handlers configured.
- * Called per-request in stateless HTTP mode.
+ * Called per-request in stateless HTTP mode, per-session in stateful
+ * HTTP mode, once in stdio mode.
+ *
+ * @param connectionSignal - Aborted when the client connection/session goes away;
+ *   cancels all tool calls still running on this server
  */
-function createMcpServer(): Server {
+function createMcpServer(connectionSignal?: AbortSignal): Server {
   const mcpServer = new Server(
     { name: 'devrk-mcp', version: '1.0.0' },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: { listChanged: config.server.hotReload }, prompts: {} } }
   );
 
   mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -155,30 +411,63 @@ function createMcpServer(): Server {
     return { tools };
   });
 
-  mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
+  // Skills are published as prompts that point at their composite tool
+  mcpServer.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts = getSkills()
+      .filter(skill => toolRegistry.has(skill.toolName))
+      .map(skillToPrompt);
+    return { prompts };
+  });
+
+  mcpServer.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const skill = getSkill(request.params.name);
+
+    if (!skill || !toolRegistry.has(skill.toolName)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+    }
+
+    return renderSkillPrompt(skill, request.params.arguments ?? {});
+  });
+
+  mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name: toolName, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
 
     logger.info({ tool: toolName, argsKeys: Object.keys(args || {}) }, 'Tool call received');
 
     const toolEntry = toolRegistry.get(toolName);
 
     if (!toolEntry) {
-      throw new Error(`Unknown tool: ${toolName}`);
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${toolName}`);
     }
 
-    try {
-      const modulePath = `./servers/${toolEntry.serverName}/${toolEntry.toolName}.js`;
-      logger.debug({ tool: toolName, module: modulePath }, 'Lazy loading tool implementation');
-
-      const module = await import(modulePath);
-      const tool = module[toolEntry.toolName] || module.default;
+    let signal: AbortSignal | undefined;
+    let timeoutMs = config.timeout.default;
+    let implementationName: string | undefined;
 
-      if (!tool || typeof tool.execute !== 'function') {
-        throw new Error(`Tool ${toolName} does not have an execute function`);
-      }
+    try {
+      const tool = await loadToolImplementation(toolName, toolEntry);
+      implementationName = tool.name;
+
+      // Cancel on notifications/cancelled (extra.signal), disconnect, or per-tool timeout
+      timeoutMs = tool.timeout ?? config.timeout.default;
+      signal = AbortSignal.any([
+        extra.signal,
+        AbortSignal.timeout(timeoutMs),
+        ...(connectionSignal ? [connectionSignal] : [])
+      ]);
+
+      const context = createToolContext({
+        reportProgress: progressToken === undefined
+          ? undefined
+          : (current, total, message) => sendProgress(extra, progressToken, toolName, current, total, message),
+        signal,
+        callTool: (name, nestedArgs) => callRegisteredTool(name, nestedArgs, signal!)
+      });
 
+      // call() validates input (filling defaults), runs execute and validates output
       const startTime = Date.now();
-      const result = await tool.execute(args || {});
+      const result = await tool.call(args || {}, context);
       const duration = Date.now() - startTime;
 
       logger.info({
@@ -187,27 +476,37 @@ function createMcpServer(): Server {
         resultKeys: Object.keys(result)
       }, 'Tool execution completed');
 
+      // Text block for clients without structured output support,
+      // structuredContent for typed consumption (matches outputSchema from tools/list)
       return {
         content: [{
           type: 'text' as const,
           text: JSON.stringify(result, null, 2)
-        }]
+        }],
+        structuredContent: result
       };
 
     } catch (error: any) {
+      // Invalid arguments are a protocol-level error, not a tool failure - but only the
+      // called tool's own input: a nested call (answer -> search, skill steps) rejecting
+      // arguments the tool built is a failure of this tool
+      if (error instanceof ToolValidationError && error.phase === 'input' && error.tool === implementationName) {
+        logger.warn({ tool: toolName, issues: error.issues }, 'Tool call rejected: invalid params');
+        throw new McpError(ErrorCode.InvalidParams, error.message, {
+          tool: toolName,
+          issues: error.issues
+        });
+      }
+
+      const message = signal?.aborted ? describeAbort(signal.reason, timeoutMs) : error.message;
+
       logger.error({
         tool: toolName,
-        error: error.message,
+        error: message,
         stack: error.stack
       }, 'Tool execution failed');
 
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `Error executing ${toolName}: ${error.message}`
-        }],
-        isError: true
-      };
+      return toolErrorResult(toolName, error, message, signal?.aborted ?? false);
     }
   });
 
@@ -245,13 +544,42 @@ function bearerAuth(req: Request, res: Response, next: NextFunction) {
 }
 
 /**
- * Start MCP server on HTTP with Bearer token auth
+ * Start MCP server using the selected transport
  */
-export async function startMcpServer() {
-  logger.info('Starting MCP server (HTTP)...');
+export async function startMcpServer(transport: TransportMode = config.server.transport as TransportMode) {
+  logger.info({ transport }, 'Starting MCP server...');
 
   await initializeToolRegistry();
 
+  if (config.server.hotReload) {
+    if (config.server.toolDiscovery) {
+      stopWatcher = watchServers(reloadToolRegistry);
+    } else {
+      logger.warn('HOT_RELOAD requires TOOL_DISCOVERY=true, hot reload disabled');
+    }
+  }
+
+  if (transport === 'stdio') {
+    await startStdioServer();
+  } else {
+    await startHttpServer();
+  }
+}
+
+/**
+ * Serve MCP over stdin/stdout for locally launched clients
+ */
+async function startStdioServer() {
+  stdioServer = createMcpServer();
+  await stdioServer.connect(new StdioServerTransport());
+
+  logger.info({ tools: toolRegistry.size }, 'MCP server ready on stdio');
+}
+
+/**
+ * Serve MCP over Streamable HTTP with Bearer token auth
+ */
+async function startHttpServer() {
   const { default: express } = await import('express');
 
   const app = express();
@@ -259,69 +587,271 @@ export async function startMcpServer() {
 
   // Health check endpoint - NO auth (Docker healthcheck needs it)
   app.get('/health', (_req, res) => {
-    res.json({ status: 'ok', tools: toolRegistry.size });
+    res.json({
+      status: 'ok',
+      tools: toolRegistry.size,
+      ...(config.server.stateful && { sessions: sessions.size })
+    });
   });
 
   // Bearer token auth for all /mcp routes
   app.use('/mcp', bearerAuth);
 
-  // MCP Streamable HTTP endpoint (stateless)
+  if (config.server.stateful) {
+    registerStatefulRoutes(app);
+  } else {
+    registerStatelessRoutes(app);
+  }
+
+  const port = config.server.port;
+  const host = config.server.host;
+
+  httpServer = app.listen(port, host, () => {
+    logger.info({ port, host, stateful: config.server.stateful }, 'MCP server ready on HTTP');
+  });
+}
+
+/**
+ * Send a JSON-RPC error response for requests that never reach a transport
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  });
+}
+
+/**
+ * Stateless mode: new Server + transport per POST, no sessions, no SSE.
+ *
+ * notifications/cancelled cannot reach a running call here: it arrives in its
+ * own POST, handled by a fresh Server that does not know the request. Calls
+ * stop on client disconnect or their timeout; use stateful HTTP or stdio to cancel.
+ */
+function registerStatelessRoutes(app: Express) {
   app.post('/mcp', async (req, res) => {
     try {
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined // Stateless mode
       });
 
-      const mcpServer = createMcpServer();
-      await mcpServer.connect(transport);
-      await transport.handleRequest(req, res, req.body);
+      // Client disconnect cancels any tool call still running for this request
+      const connection = new AbortController();
+      const mcpServer = createMcpServer(connection.signal);
 
       res.on('close', () => {
+        connection.abort();
         transport.close();
         mcpServer.close();
       });
+
+      await mcpServer.connect(transport);
+      await transport.handleRequest(req, res, req.body);
     } catch (error: any) {
       logger.error({ error: error.message }, 'HTTP request failed');
       if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: { code: -32603, message: 'Internal server error' },
-          id: null
-        });
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
       }
     }
   });
 
   // GET /mcp - SSE stream (not used in stateless mode, return 405)
   app.get('/mcp', (_req, res) => {
-    res.status(405).json({
-      jsonrpc: '2.0',
-      error: { code: -32601, message: 'SSE not supported in stateless mode' },
-      id: null
-    });
+    sendJsonRpcError(res, 405, -32601, 'SSE not supported in stateless mode');
   });
 
   // DELETE /mcp - session termination (not used in stateless mode, return 405)
   app.delete('/mcp', (_req, res) => {
-    res.status(405).json({
-      jsonrpc: '2.0',
-      error: { code: -32601, message: 'Session termination not supported in stateless mode' },
-      id: null
-    });
+    sendJsonRpcError(res, 405, -32601, 'Session termination not supported in stateless mode');
   });
+}
 
-  const port = config.server.port;
-  const host = config.server.host;
+/**
+ * Look up the session referenced by the mcp-session-id header.
+ * Responds with 400 (missing header) or 404 (unknown/expired session) when not found.
+ */
+function resolveSession(req: Request, res: Response): HttpSession | undefined {
+  const sessionId = req.headers['mcp-session-id'];
+
+  if (typeof sessionId !== 'string' || !sessionId) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: missing mcp-session-id header');
+    return undefined;
+  }
+
+  const session = sessions.get(sessionId);
 
-  app.listen(port, host, () => {
-    logger.info({ port, host }, 'MCP server ready on HTTP');
+  if (!session) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found or expired');
+    return undefined;
+  }
+
+  // A session is busy while any of its requests or streams is open; it idles from the last one closing
+  session.lastActivity = Date.now();
+  session.openRequests++;
+  res.on('close', () => {
+    session.openRequests--;
+    session.lastActivity = Date.now();
+  });
+
+  return session;
+}
+
+/**
+ * Create a new session (Server + transport + event store) and answer its initialize request.
+ * If the request fails before the session is initialized, the transport and server are closed.
+ */
+async function initializeSession(req: Request, res: Response): Promise<void> {
+  // Session close (DELETE, idle expiry, shutdown) cancels the session's running tool calls.
+  // A dropped SSE stream does not - the client can resume it with Last-Event-ID.
+  const connection = new AbortController();
+  const mcpServer = createMcpServer(connection.signal);
+  const eventStore = new InMemoryEventStore();
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore,
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, { transport, server: mcpServer, lastActivity: Date.now(), openRequests: 0 });
+      logger.info({ sessionId, sessions: sessions.size }, 'MCP session initialized');
+    }
   });
+
+  transport.onclose = () => {
+    connection.abort();
+    const sessionId = transport.sessionId;
+    if (sessionId && sessions.delete(sessionId)) {
+      logger.info({ sessionId, sessions: sessions.size }, 'MCP session closed');
+    }
+  };
+
+  await mcpServer.connect(transport);
+
+  try {
+    await transport.handleRequest(req, res, req.body);
+  } finally {
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      logger.warn('Initialize request failed, discarding session');
+      await transport.close();
+      await mcpServer.close();
+    }
+  }
+}
+
+/**
+ * Close a session and release its server and event store
+ */
+async function closeSession(sessionId: string, reason: string) {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  sessions.delete(sessionId);
+  logger.info({ sessionId, reason }, 'Closing MCP session');
+
+  try {
+    await session.transport.close();
+    await session.server.close();
+  } catch (error: any) {
+    logger.warn({ sessionId, error: error.message }, 'Error while closing MCP session');
+  }
+}
+
+/**
+ * Close sessions that have been idle longer than MCP_SESSION_IDLE_TIMEOUT.
+ * Sessions with an open request or SSE stream are never idle.
+ */
+async function sweepIdleSessions() {
+  const cutoff = Date.now() - config.server.sessionIdleTimeout;
+
+  for (const [sessionId, session] of sessions) {
+    if (session.openRequests === 0 && session.lastActivity < cutoff) {
+      await closeSession(sessionId, 'idle timeout');
+    }
+  }
+}
+
+/**
+ * Stateful mode: session IDs, SSE streams on GET, DELETE termination,
+ * Last-Event-ID resumption via per-session event store
+ */
+function registerStatefulRoutes(app: Express) {
+  app.post('/mcp', async (req, res) => {
+    try {
+      if (req.headers['mcp-session-id']) {
+        const session = resolveSession(req, res);
+        if (!session) return;
+        await session.transport.handleRequest(req, res, req.body);
+      } else if (isInitializeRequest(req.body)) {
+        await initializeSession(req, res);
+      } else {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      }
+    } catch (error: any) {
+      logger.error({ error: error.message }, 'HTTP request failed');
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // GET /mcp - standalone SSE stream (resumable with Last-Event-ID)
+  app.get('/mcp', async (req, res) => {
+    const session = resolveSession(req, res);
+    if (!session) return;
+
+    if (req.headers['last-event-id']) {
+      logger.debug({ sessionId: session.transport.sessionId, lastEventId: req.headers['last-event-id'] }, 'Resuming SSE stream');
+    }
+
+    await session.transport.handleRequest(req, res);
+  });
+
+  // DELETE /mcp - session termination
+  app.delete('/mcp', async (req, res) => {
+    const session = resolveSession(req, res);
+    if (!session) return;
+
+    const sessionId = session.transport.sessionId!;
+    await session.transport.handleRequest(req, res);
+    await closeSession(sessionId, 'terminated by client');
+  });
+
+  sessionSweepTimer = setInterval(() => {
+    sweepIdleSessions().catch(error => {
+      logger.error({ error: error.message }, 'Session sweep failed');
+    });
+  }, Math.min(config.server.sessionIdleTimeout, 60000));
+  sessionSweepTimer.unref();
 }
 
 /**
  * Graceful shutdown
  */
 export async function stopMcpServer() {
+  if (stopWatcher) {
+    stopWatcher();
+    stopWatcher = null;
+  }
+
+  if (stdioServer) {
+    await stdioServer.close();
+    stdioServer = null;
+  }
+
+  if (sessionSweepTimer) {
+    clearInterval(sessionSweepTimer);
+    sessionSweepTimer = null;
+  }
+
+  for (const sessionId of Array.from(sessions.keys())) {
+    await closeSession(sessionId, 'server shutdown');
+  }
+
+  if (httpServer) {
+    httpServer.close();
+    httpServer = null;
+  }
+
   logger.info('MCP server stopped');
 }
 
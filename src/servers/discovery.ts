@@ -0,0 +1,228 @@
+/**
+ * Server & Tool Discovery
+ *
+ * Scans the servers directory (src/servers when running with tsx,
+ * dist/servers in production) and builds ServerMetadata from the filesystem:
+ * - each subdirectory is a server
+ * - manifest.{ts,js} provides name/description/version
+ * - every module export created with createTool() is a tool
+ *
+ * Broken modules, missing manifests and duplicate tool names are reported
+ * as problems instead of aborting startup.
+ */
+
+import { readdir } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { logger } from '../utils/logger.js';
+import { toMcpToolName } from '../utils/tool-names.js';
+import type { ServerManifest, ServerMetadata } from '../types/index.js';
+
+/**
+ * Problem found while discovering servers
+ */
+export interface DiscoveryProblem {
+  server: string;
+  module?: string;
+  tool?: string;
+  kind: 'missing-manifest' | 'broken-module' | 'duplicate-tool' | 'name-mismatch';
+  message: string;
+}
+
+export interface DiscoveryResult {
+  servers: ServerMetadata[];
+  problems: DiscoveryProblem[];
+}
+
+/**
+ * Modules in a server directory that never contain tools
+ */
+const NON_TOOL_MODULES = new Set(['index', 'manifest']);
+
+/**
+ * Directory of compiled/source servers, resolved relative to this module
+ */
+export const SERVERS_DIR = fileURLToPath(new URL('.', import.meta.url));
+
+/**
+ * Source extension of the running code: .ts under tsx, .js after tsc
+ */
+const MODULE_EXT = extname(fileURLToPath(import.meta.url));
+
+/**
+ * Reload generation per module file - bumped by invalidateModule() so the
+ * next import uses a fresh URL and bypasses the ESM module cache
+ */
+const moduleVersions = new Map<string, number>();
+
+/**
+ * Mark a module file as changed; the next discovery re-imports it
+ */
+export function invalidateModule(filePath: string): void {
+  moduleVersions.set(filePath, (moduleVersions.get(filePath) ?? 0) + 1);
+}
+
+/**
+ * Import URL for a module file, cache-busted after invalidateModule()
+ */
+function moduleUrl(filePath: string): string {
+  const href = pathToFileURL(filePath).href;
+  const version = moduleVersions.get(filePath);
+  return version ? `${href}?v=${version}` : href;
+}
+
+/**
+ * Check whether a module export is a tool created with createTool()
+ */
+export function isToolExport(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const tool = value as Record<string, unknown>;
+  return typeof tool.name === 'string' &&
+    typeof tool.call === 'function' &&
+    typeof tool.execute === 'function' &&
+    !!tool.inputSchema &&
+    !!tool.outputSchema;
+}
+
+/**
+ * Load server manifest, falling back to the directory name
+ */
+async function loadManifest(
+  dirName: string,
+  dirPath: string,
+  problems: DiscoveryProblem[]
+): Promise<ServerManifest> {
+  const manifestPath = join(dirPath, `manifest${MODULE_EXT}`);
+
+  try {
+    const module = await import(moduleUrl(manifestPath));
+    const manifest = module.manifest ?? module.default;
+
+    if (!manifest?.name) {
+      throw new Error('manifest export missing or has no name');
+    }
+
+    return manifest;
+  } catch (error: any) {
+    problems.push({
+      server: dirName,
+      module: manifestPath,
+      kind: 'missing-manifest',
+      message: `Using directory name as server name: ${error.message}`
+    });
+    return { name: dirName, description: `${dirName} server`, version: '0.0.0' };
+  }
+}
+
+/**
+ * Discover a single server directory
+ */
+async function discoverServer(
+  dirName: string,
+  dirPath: string,
+  seenTools: Map<string, string>,
+  problems: DiscoveryProblem[]
+): Promise<ServerMetadata> {
+  const manifest = await loadManifest(dirName, dirPath, problems);
+  const server: ServerMetadata = { ...manifest, tools: [], toolModules: {} };
+
+  const files = (await readdir(dirPath))
+    .filter(file => extname(file) === MODULE_EXT && !file.endsWith('.d.ts'))
+    .filter(file => !NON_TOOL_MODULES.has(file.slice(0, -MODULE_EXT.length)))
+    .sort();
+
+  for (const file of files) {
+    const modulePath = join(dirPath, file);
+    const url = moduleUrl(modulePath);
+
+    let module: Record<string, unknown>;
+    try {
+      module = await import(url);
+    } catch (error: any) {
+      problems.push({ server: server.name, module: modulePath, kind: 'broken-module', message: error.message });
+      continue;
+    }
+
+    for (const [exportName, value] of Object.entries(module)) {
+      if (!isToolExport(value)) continue;
+
+      const mcpToolName = toMcpToolName(server.name, exportName);
+      const existing = seenTools.get(mcpToolName);
+
+      if (existing) {
+        problems.push({
+          server: server.name,
+          module: modulePath,
+          tool: exportName,
+          kind: 'duplicate-tool',
+          message: `${mcpToolName} already provided by ${existing}`
+        });
+        continue;
+      }
+
+      const declaredName = (value as { name: string }).name;
+      if (declaredName !== mcpToolName) {
+        problems.push({
+          server: server.name,
+          module: modulePath,
+          tool: exportName,
+          kind: 'name-mismatch',
+          message: `createTool name "${declaredName}" differs from registered name "${mcpToolName}"`
+        });
+      }
+
+      seenTools.set(mcpToolName, modulePath);
+      server.tools.push(exportName);
+      server.toolModules![exportName] = url;
+    }
+  }
+
+  return server;
+}
+
+/**
+ * Discover a single directory as one server (e.g. src/skills)
+ *
+ * @param dirPath - Directory containing manifest + tool modules
+ * @param dirName - Fallback server name when the manifest is missing
+ */
+export async function discoverServerDirectory(
+  dirPath: string,
+  dirName: string
+): Promise<{ server: ServerMetadata; problems: DiscoveryProblem[] }> {
+  const problems: DiscoveryProblem[] = [];
+  const server = await discoverServer(dirName, dirPath, new Map(), problems);
+  return { server, problems };
+}
+
+/**
+ * Discover all servers and tools under a servers directory
+ *
+ * @param serversDir - Directory to scan (defaults to the directory of this module)
+ */
+export async function discoverServers(serversDir: string = SERVERS_DIR): Promise<DiscoveryResult> {
+  const problems: DiscoveryProblem[] = [];
+  const servers: ServerMetadata[] = [];
+  const seenTools = new Map<string, string>();
+
+  const entries = (await readdir(serversDir, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+
+  for (const dirName of entries) {
+    const server = await discoverServer(dirName, join(serversDir, dirName), seenTools, problems);
+
+    if (server.tools.length > 0) {
+      servers.push(server);
+    }
+  }
+
+  logger.info({
+    servers: servers.map(s => s.name),
+    tools: seenTools.size,
+    problems: problems.length
+  }, 'Discovered tool servers');
+
+  return { servers, problems };
+}
@@ -0,0 +1,73 @@
+/**
+ * Hot Reload of Tool Modules
+ *
+ * Dev/admin mode (HOT_RELOAD=true): watches the servers directory and calls
+ * back with the changed files after a short debounce. Changed modules are
+ * invalidated so the next discovery re-imports them with a cache-busting URL.
+ *
+ * Limitation: only the changed file is re-imported. Modules it imports
+ * (e.g. shared utils) stay cached until the process restarts.
+ */
+
+import { watch } from 'node:fs';
+import { extname, join } from 'node:path';
+import { logger } from '../utils/logger.js';
+import { SERVERS_DIR, invalidateModule } from './discovery.js';
+
+const MODULE_EXTENSIONS = new Set(['.ts', '.js']);
+
+/**
+ * Watch the servers directory for module changes
+ *
+ * @param onChange - Called with changed file paths (debounced, never concurrently)
+ * @param debounceMs - Quiet period before reloading (editors and tsc write in bursts)
+ * @param serversDir - Directory to watch (defaults to the built-in servers directory)
+ * @returns Function that stops watching
+ */
+export function watchServers(
+  onChange: (changedFiles: string[]) => Promise<void>,
+  debounceMs = 300,
+  serversDir: string = SERVERS_DIR
+): () => void {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let reloading: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = null;
+    const changedFiles = Array.from(pending);
+    pending.clear();
+
+    for (const file of changedFiles) {
+      invalidateModule(file);
+    }
+
+    reloading = reloading
+      .then(() => onChange(changedFiles))
+      .catch((error: any) => {
+        logger.error({ error: error.message }, 'Tool hot reload failed');
+      });
+  };
+
+  const watcher = watch(serversDir, { recursive: true }, (_event, filename) => {
+    if (!filename || filename.endsWith('.d.ts') || !MODULE_EXTENSIONS.has(extname(filename))) {
+      return;
+    }
+
+    pending.add(join(serversDir, filename));
+
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  });
+
+  watcher.on('error', (error) => {
+    logger.error({ error: error.message }, 'Servers directory watcher failed');
+  });
+
+  logger.info({ dir: serversDir }, 'Hot reload enabled, watching tool modules');
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -1,40 +1,90 @@
 import type { ServerMetadata } from '../types/index.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { discoverServers } from './discovery.js';
+import { loadPlugins, parsePluginList } from './plugins.js';
+import { loadSkills } from '../skills/index.js';
+import { manifest as youtubeManifest } from './youtube/manifest.js';
+import { manifest as qdrantRagManifest } from './qdrant-rag/manifest.js';
 
 /**
  * Server Registry
  *
  * Central registry for all available tool servers.
  * Each server is a collection of related tools organized in its own directory.
+ *
+ * By default servers are discovered from the filesystem (see discovery.ts).
+ * Set TOOL_DISCOVERY=false to use the static registry below instead.
+ * External servers listed in MCP_PLUGINS are appended (see plugins.ts),
+ * followed by skills from src/skills (see skills/index.ts).
  */
 
 /**
- * Registry of all available servers
+ * Static registry of servers - override for filesystem discovery
  */
 export const serverRegistry: ServerMetadata[] = [
   {
-    name: 'youtube',
-    description: 'YouTube integration via Google API - latest videos with AI summaries and transcripts',
-    version: '2.0.0',
-    tools: ['getLatestVideos']
+    ...youtubeManifest,
+    tools: ['getLatestVideos', 'ingestTranscripts', 'listSubscriptions']
   },
   {
-    name: 'qdrant-rag',
-    description: 'Qdrant RAG - semantic search and knowledge base operations',
-    version: '1.0.0',
-    tools: ['search', 'listCollections']
+    ...qdrantRagManifest,
+    tools: ['search', 'listCollections', 'ingest', 'createCollection', 'deleteCollection', 'describeCollection', 'answer', 'getPoints', 'scroll', 'deletePoints']
   }
 ];
 
+/**
+ * Servers resolved at startup by loadServers()
+ */
+let loadedServers: ServerMetadata[] = serverRegistry;
+
+/**
+ * Resolve servers from filesystem discovery (default) or the static registry,
+ * then append plugin servers and skills. Discovery, plugin and skill problems
+ * are logged, never fatal.
+ */
+export async function loadServers(): Promise<ServerMetadata[]> {
+  const servers = await loadBuiltInServers();
+  const plugins = await loadPlugins(parsePluginList(config.plugins.modules), servers);
+  const withPlugins = [...servers, ...plugins];
+
+  const skills = config.skills.enabled ? await loadSkills(withPlugins) : null;
+
+  loadedServers = skills ? [...withPlugins, skills] : withPlugins;
+  return loadedServers;
+}
+
+/**
+ * Built-in servers shipped in this repository
+ */
+async function loadBuiltInServers(): Promise<ServerMetadata[]> {
+  if (!config.server.toolDiscovery) {
+    logger.info({ servers: serverRegistry.length }, 'Tool discovery disabled, using static server registry');
+    return serverRegistry;
+  }
+
+  const { servers, problems } = await discoverServers();
+
+  for (const problem of problems) {
+    const log = problem.kind === 'broken-module' || problem.kind === 'duplicate-tool'
+      ? logger.error
+      : logger.warn;
+    log(problem, 'Tool discovery problem');
+  }
+
+  return servers;
+}
+
 /**
  * Get metadata for all registered servers
  */
 export function getAllServers(): ServerMetadata[] {
-  return serverRegistry;
+  return loadedServers;
 }
 
 /**
  * Get metadata for a specific server by name
  */
 export function getServer(name: string): ServerMetadata | undefined {
-  return serverRegistry.find(server => server.name === name);
+  return loadedServers.find(server => server.name === name);
 }
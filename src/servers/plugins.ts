@@ -0,0 +1,154 @@
+/**
+ * Plugin Loader
+ *
+ * Loads external tool servers from npm packages or local paths listed in
+ * MCP_PLUGINS (comma-separated). A plugin module exports:
+ * - `manifest: ServerManifest` (name, description, version)
+ * - one or more tools created with createTool()
+ *
+ * Plugin tools are registered as `<manifest.name>__<tool>` like built-in ones.
+ * Each plugin is loaded in isolation: a plugin that fails to import, has no
+ * manifest or claims an existing server name is skipped and logged.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { logger } from '../utils/logger.js';
+import { normalizeServerName, toMcpToolName } from '../utils/tool-names.js';
+import { isToolExport } from './discovery.js';
+import type { ServerManifest, ServerMetadata } from '../types/index.js';
+
+/**
+ * Parse MCP_PLUGINS into a list of plugin specifiers
+ */
+export function parsePluginList(value: string): string[] {
+  return value
+    .split(',')
+    .map(spec => spec.trim())
+    .filter(spec => spec.length > 0);
+}
+
+/**
+ * Check whether a specifier is a filesystem path rather than a package name
+ */
+function isPathSpecifier(spec: string): boolean {
+  return spec.startsWith('.') || isAbsolute(spec);
+}
+
+/**
+ * Resolve a plugin specifier to something import() accepts.
+ * Paths are resolved against the working directory; a directory is
+ * loaded through its package.json "main" or index.js.
+ */
+async function resolvePluginModule(spec: string): Promise<string> {
+  if (!isPathSpecifier(spec)) {
+    return spec;
+  }
+
+  let path = resolve(process.cwd(), spec);
+
+  if ((await stat(path)).isDirectory()) {
+    let main = 'index.js';
+    try {
+      const pkg = JSON.parse(await readFile(join(path, 'package.json'), 'utf-8'));
+      main = pkg.main ?? main;
+    } catch {
+      // No package.json - fall back to index.js
+    }
+    path = join(path, main);
+  }
+
+  return pathToFileURL(path).href;
+}
+
+/**
+ * Manifest exported as `manifest` or `default.manifest`; undefined unless it has a name
+ */
+function pluginManifest(module: Record<string, unknown>): Partial<ServerManifest> & { name: string } | undefined {
+  const fallback = module.default;
+  const manifest = module.manifest ??
+    (typeof fallback === 'object' && fallback !== null && 'manifest' in fallback ? fallback.manifest : undefined);
+
+  if (typeof manifest !== 'object' || manifest === null || !('name' in manifest) ||
+    typeof manifest.name !== 'string' || !manifest.name) {
+    return undefined;
+  }
+
+  const { description, version } = manifest as Record<string, unknown>;
+
+  return {
+    name: manifest.name,
+    description: typeof description === 'string' ? description : undefined,
+    version: typeof version === 'string' ? version : undefined
+  };
+}
+
+/**
+ * Load a single plugin into ServerMetadata
+ */
+async function loadPlugin(spec: string): Promise<ServerMetadata> {
+  const modulePath = await resolvePluginModule(spec);
+  const module: Record<string, unknown> = await import(modulePath);
+
+  const manifest = pluginManifest(module);
+
+  if (!manifest) {
+    throw new Error('Plugin does not export a manifest with a name');
+  }
+
+  const tools = Object.entries(module)
+    .filter(([, value]) => isToolExport(value))
+    .map(([exportName]) => exportName);
+
+  if (tools.length === 0) {
+    throw new Error('Plugin does not export any createTool() tools');
+  }
+
+  return {
+    name: manifest.name,
+    description: manifest.description ?? `${manifest.name} plugin`,
+    version: manifest.version ?? '0.0.0',
+    tools,
+    toolModules: Object.fromEntries(tools.map(tool => [tool, modulePath]))
+  };
+}
+
+/**
+ * Load plugins and merge them after the given built-in servers
+ *
+ * @param specs - Package names or paths of plugin modules
+ * @param servers - Already registered servers (used for conflict detection)
+ * @returns Servers provided by successfully loaded plugins
+ */
+export async function loadPlugins(specs: string[], servers: ServerMetadata[]): Promise<ServerMetadata[]> {
+  const plugins: ServerMetadata[] = [];
+  const serverPrefixes = new Map(servers.map(s => [normalizeServerName(s.name), s.name]));
+  const toolNames = new Set(servers.flatMap(s => s.tools.map(tool => toMcpToolName(s.name, tool))));
+
+  for (const spec of specs) {
+    try {
+      const plugin = await loadPlugin(spec);
+      const prefix = normalizeServerName(plugin.name);
+
+      if (serverPrefixes.has(prefix)) {
+        throw new Error(`Server name "${plugin.name}" conflicts with already registered server "${serverPrefixes.get(prefix)}"`);
+      }
+
+      const conflicts = plugin.tools.filter(tool => toolNames.has(toMcpToolName(plugin.name, tool)));
+      if (conflicts.length > 0) {
+        throw new Error(`Tool names already registered: ${conflicts.map(tool => toMcpToolName(plugin.name, tool)).join(', ')}`);
+      }
+
+      serverPrefixes.set(prefix, plugin.name);
+      plugin.tools.forEach(tool => toolNames.add(toMcpToolName(plugin.name, tool)));
+      plugins.push(plugin);
+
+      logger.info({ plugin: spec, server: plugin.name, tools: plugin.tools }, 'Loaded plugin');
+    } catch (error: any) {
+      logger.error({ plugin: spec, error: error.message }, 'Failed to load plugin, skipping');
+    }
+  }
+
+  return plugins;
+}
@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { complete } from '../../utils/ai-summarizer.js';
+import { PayloadFilterSchema } from './filter.js';
+import { search } from './search.js';
+import { termCoverage } from './sparse.js';
+
+/**
+ * Answer returned when no retrieved chunk supports an answer
+ */
+export const NO_ANSWER = "I don't know.";
+
+/**
+ * Marker the model replies with when the context does not contain the answer
+ */
+const NO_ANSWER_MARKER = 'NO_ANSWER';
+
+/**
+ * Rough characters per token, used to keep the context under maxContextTokens
+ */
+const CHARS_PER_TOKEN = 4;
+
+const ANSWER_PROMPT = 'You answer questions using only the numbered context passages provided. ' +
+  'Cite every statement with the passage number in square brackets, e.g. [1] or [2][3]. ' +
+  'Do not use outside knowledge. Answer in the same language as the question. ' +
+  `If the passages do not contain the answer, reply with exactly ${NO_ANSWER_MARKER}.`;
+
+/**
+ * Metadata keys shown in passage headers so the model can tell sources apart
+ */
+const HEADER_KEYS = ['title', 'source', 'section', 'url'];
+
+const AnswerInputSchema = z.object({
+  question: z.string().min(1).describe('Question to answer from the knowledge base'),
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  collections: z.union([z.array(z.string().min(1)).min(1), z.literal('*')]).optional()
+    .describe('Search several collections at once (overrides collection); "*" = every collection'),
+  limit: z.number().int().min(1).max(20).optional().default(6)
+    .describe('Maximum number of chunks retrieved as context'),
+  scoreThreshold: z.number().min(0).max(1).optional().default(0.7)
+    .describe('Minimum relevance (0-1): dense similarity, or for sparse hits the share of question terms ' +
+      'the chunk contains; nothing above it means "I don\'t know"'),
+  mode: z.enum(['dense', 'sparse', 'hybrid']).optional().default('dense')
+    .describe('Retrieval mode, as in qdrant_rag__search'),
+  filter: PayloadFilterSchema.optional(),
+  rerank: z.enum(['endpoint', 'llm']).optional()
+    .describe('Rerank retrieved chunks before building the context'),
+  maxContextTokens: z.number().int().min(200).max(32000).optional().default(3000)
+    .describe('Token budget for retrieved context (estimated at ~4 characters per token)'),
+  maxAnswerTokens: z.number().int().min(50).max(4000).optional().default(500)
+    .describe('Maximum tokens of the generated answer')
+});
+
+const SourceSchema = z.object({
+  ref: z.number().describe('Passage number used for inline citations, e.g. [1]'),
+  id: z.union([z.string(), z.number()]),
+  collection: z.string(),
+  score: z.number(),
+  metadata: z.record(z.unknown()).optional()
+});
+
+const AnswerOutputSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+  answered: z.boolean().describe('false when the knowledge base had no supporting passages'),
+  citations: z.array(SourceSchema).describe('Sources cited inline in the answer'),
+  sources: z.array(SourceSchema).describe('All passages given to the model as context'),
+  contextTokens: z.number().describe('Estimated tokens of context sent to the model'),
+  skipped: z.number().describe('Retrieved chunks left out to stay under maxContextTokens')
+});
+
+type Source = z.infer<typeof SourceSchema>;
+
+interface ContextChunk {
+  id: string | number;
+  collection: string;
+  score: number;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Estimate token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Build numbered context passages in ranking order until the token budget is used.
+ * The first chunk is truncated rather than dropped so there is always some context.
+ */
+export function buildContext(chunks: ContextChunk[], maxTokens: number): { context: string; sources: Source[]; skipped: number } {
+  const passages: string[] = [];
+  const sources: Source[] = [];
+  let budget = maxTokens * CHARS_PER_TOKEN;
+
+  for (const chunk of chunks) {
+    const ref = sources.length + 1;
+    const details = HEADER_KEYS
+      .filter(key => chunk.metadata?.[key] !== undefined)
+      .map(key => `${key}: ${chunk.metadata![key]}`);
+    const header = `[${ref}] ${[`collection: ${chunk.collection}`, ...details].join(', ')}`;
+    let passage = `${header}\n${chunk.content}`;
+
+    if (passage.length > budget) {
+      if (sources.length > 0) break;
+      passage = passage.substring(0, budget);
+    }
+
+    passages.push(passage);
+    sources.push({
+      ref,
+      id: chunk.id,
+      collection: chunk.collection,
+      score: chunk.score,
+      ...(chunk.metadata && { metadata: chunk.metadata })
+    });
+    // Blank line between passages
+    budget -= passage.length + 2;
+  }
+
+  return {
+    context: passages.join('\n\n'),
+    sources,
+    skipped: chunks.length - sources.length
+  };
+}
+
+/**
+ * Sources referenced by [n] markers in the answer, in first-cited order
+ */
+export function extractCitations(answer: string, sources: Source[]): Source[] {
+  const refs = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const ref of match[1].split(',')) {
+      refs.add(Number(ref.trim()));
+    }
+  }
+
+  return Array.from(refs)
+    .map(ref => sources.find(source => source.ref === ref))
+    .filter((source): source is Source => source !== undefined);
+}
+
+/**
+ * Whether a retrieved chunk clears scoreThreshold in the given mode.
+ *
+ * Dense hits were already thresholded by Qdrant on similarity. Sparse BM25
+ * and fused RRF scores have no fixed scale, so sparse hits must contain at
+ * least scoreThreshold of the question's terms instead. In hybrid mode a
+ * chunk passes on either: the thresholded dense prefetch found it, or its
+ * term coverage clears the threshold.
+ */
+export function isRelevant(
+  result: { content: string; retriever: 'dense' | 'sparse' | 'both' },
+  question: string,
+  mode: 'dense' | 'sparse' | 'hybrid',
+  scoreThreshold: number
+): boolean {
+  if (mode === 'dense') return true;
+  if (mode === 'hybrid' && result.retriever !== 'sparse') return true;
+  return termCoverage(question, result.content) >= scoreThreshold;
+}
+
+/**
+ * Answer a question from the knowledge base (retrieval-augmented generation)
+ *
+ * Retrieves the top chunks with qdrant_rag__search, packs them into a
+ * numbered context under maxContextTokens and asks the configured AI
+ * provider (AI_PROVIDER / AI_MODEL) for an answer grounded in that context.
+ * The answer cites passages inline as [n]; `citations` maps each number to
+ * the point `id`, collection and metadata.
+ *
+ * Returns "I don't know." (`answered: false`) without calling the model when
+ * no chunk clears scoreThreshold, and when the model finds no answer in the context.
+ * The threshold applies in every mode (see isRelevant): similarity for dense
+ * hits, question-term coverage for sparse ones.
+ *
+ * @example
+ * ```typescript
+ * const result = await answer.call({
+ *   question: 'How do I rotate the Gmail refresh token?',
+ *   collections: ['docs', 'runbooks']
+ * });
+ * // result.answer: 'Run npm run auth:gmail and update GMAIL_REFRESH_TOKEN [1].'
+ * // result.citations[0].id: '4b1f...'
+ * ```
+ */
+export const answer = createTool({
+  name: 'qdrant_rag__answer',
+  description: 'Answer a question from the Qdrant knowledge base with inline citations, or say "I don\'t know"',
+  input: AnswerInputSchema,
+  output: AnswerOutputSchema,
+  timeout: config.timeout.long,
+  execute: async (input, context) => {
+    logger.info({
+      question: input.question.substring(0, 100),
+      collection: input.collections ?? input.collection,
+      limit: input.limit
+    }, 'Starting Qdrant answer');
+
+    await context.reportProgress(0, 2, 'Retrieving context');
+
+    const retrieved = await search.call({
+      query: input.question,
+      collection: input.collection,
+      collections: input.collections,
+      limit: input.limit,
+      scoreThreshold: input.scoreThreshold,
+      mode: input.mode,
+      filter: input.filter,
+      rerank: input.rerank
+    }, { signal: context.signal });
+
+    const relevant = retrieved.results.filter(result =>
+      isRelevant(result, input.question, input.mode, input.scoreThreshold));
+
+    if (relevant.length < retrieved.results.length) {
+      logger.debug({
+        dropped: retrieved.results.length - relevant.length,
+        mode: input.mode
+      }, 'Dropped sparse hits below score threshold');
+    }
+
+    const { context: passages, sources, skipped } = buildContext(relevant, input.maxContextTokens);
+    const unanswered = {
+      question: input.question,
+      answer: NO_ANSWER,
+      answered: false,
+      citations: [],
+      sources,
+      contextTokens: estimateTokens(passages),
+      skipped
+    };
+
+    if (sources.length === 0) {
+      logger.info({ scoreThreshold: input.scoreThreshold }, 'No chunks above score threshold, not answering');
+      await context.reportProgress(2, 2, 'Nothing relevant found');
+      return unanswered;
+    }
+
+    await context.reportProgress(1, 2, `Generating answer from ${sources.length} passages`);
+
+    const text = await complete(
+      ANSWER_PROMPT,
+      `Context:\n\n${passages}\n\nQuestion: ${input.question}`,
+      { maxTokens: input.maxAnswerTokens, temperature: 0.1, signal: context.signal }
+    );
+
+    if (!text || text.includes(NO_ANSWER_MARKER)) {
+      logger.info({ sources: sources.length }, 'Model found no answer in context');
+      await context.reportProgress(2, 2, 'No answer in context');
+      return unanswered;
+    }
+
+    const citations = extractCitations(text, sources);
+
+    await context.reportProgress(2, 2, `Answered with ${citations.length} citations`);
+
+    logger.info({
+      sources: sources.length,
+      citations: citations.length,
+      skipped,
+      contextTokens: unanswered.contextTokens
+    }, 'Qdrant answer completed');
+
+    return {
+      ...unanswered,
+      answer: text,
+      answered: true,
+      citations
+    };
+  }
+});
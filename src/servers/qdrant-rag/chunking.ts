@@ -0,0 +1,124 @@
+/**
+ * Text Chunking
+ *
+ * Splits documents into overlapping chunks for embedding.
+ * Chunk boundaries prefer paragraph breaks, then sentence ends, then
+ * whitespace, so chunks rarely cut words in half.
+ */
+
+export interface ChunkOptions {
+  /** Maximum chunk length in characters */
+  chunkSize: number;
+  /** Characters repeated from the end of the previous chunk */
+  chunkOverlap: number;
+}
+
+export interface TextChunk {
+  content: string;
+  /** Markdown heading path the chunk belongs to (markdown only) */
+  section?: string;
+}
+
+const BOUNDARIES = ['\n\n', '\n', '. ', '! ', '? ', ' '];
+
+/**
+ * Find the best place to end a chunk within text[start, maxEnd).
+ * Only boundaries in the second half of the window are considered.
+ */
+function findChunkEnd(text: string, start: number, maxEnd: number): number {
+  if (maxEnd >= text.length) {
+    return text.length;
+  }
+
+  const minEnd = start + Math.floor((maxEnd - start) / 2);
+
+  for (const boundary of BOUNDARIES) {
+    const index = text.lastIndexOf(boundary, maxEnd - boundary.length);
+    if (index >= minEnd) {
+      return index + boundary.length;
+    }
+  }
+
+  return maxEnd;
+}
+
+/**
+ * Split plain text into overlapping chunks
+ *
+ * @example
+ * ```typescript
+ * chunkText(longText, { chunkSize: 1000, chunkOverlap: 200 });
+ * ```
+ */
+export function chunkText(text: string, options: ChunkOptions): string[] {
+  const { chunkSize, chunkOverlap } = options;
+
+  if (chunkOverlap >= chunkSize) {
+    throw new Error(`chunkOverlap (${chunkOverlap}) must be smaller than chunkSize (${chunkSize})`);
+  }
+
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  if (normalized.length === 0) {
+    return [];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    const end = findChunkEnd(normalized, start, start + chunkSize);
+    const chunk = normalized.slice(start, end).trim();
+
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+    }
+
+    if (end >= normalized.length) {
+      break;
+    }
+
+    // Step back by the overlap, but always move forward
+    const next = end - chunkOverlap;
+    start = next > start ? next : end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split markdown into sections by headings, then chunk each section.
+ * Every chunk carries its heading path (e.g. "Setup > Docker").
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions): TextChunk[] {
+  const sections: Array<{ path: string[]; lines: string[] }> = [{ path: [], lines: [] }];
+  const headingPath: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = inCodeBlock ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+
+    if (heading) {
+      const level = heading[1].length;
+      headingPath.splice(level - 1);
+      headingPath[level - 1] = heading[2];
+      sections.push({ path: headingPath.filter(Boolean), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections
+    // Skip heading-only sections (e.g. a title directly followed by a subheading)
+    .filter(section => section.lines.slice(section.path.length > 0 ? 1 : 0).some(line => line.trim()))
+    .flatMap(section => {
+      const sectionName = section.path.length > 0 ? section.path.join(' > ') : undefined;
+      return chunkText(section.lines.join('\n'), options).map(content => ({
+        content,
+        ...(sectionName && { section: sectionName })
+      }));
+    });
+}
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient, generateEmbedding } from './utils.js';
+
+const DistanceSchema = z.enum(['Cosine', 'Euclid', 'Dot', 'Manhattan']);
+
+const CreateCollectionInputSchema = z.object({
+  collection: z.string().min(1).describe('Name of the collection to create'),
+  vectorSize: z.number().int().min(1).optional()
+    .describe('Vector dimension (inferred from a probe embedding of the configured model if not provided)'),
+  distance: DistanceSchema.optional().default('Cosine')
+    .describe('Distance metric'),
+  vectorNames: z.array(z.string().min(1)).min(1).optional()
+    .describe('Create named vectors (same size and distance) instead of a single unnamed vector'),
+  sparseVectorName: z.string().min(1).optional()
+    .describe('Also create a sparse vector (BM25 with IDF modifier) for hybrid search, e.g. "bm25"'),
+  onDiskPayload: z.boolean().optional().default(false)
+    .describe('Store payload on disk instead of in memory')
+});
+
+const CreateCollectionOutputSchema = z.object({
+  collection: z.string(),
+  vectorSize: z.number(),
+  distance: DistanceSchema,
+  vectorNames: z.array(z.string()).optional(),
+  sparseVectorName: z.string().optional(),
+  sizeSource: z.enum(['input', 'probe']).describe('Whether vectorSize was given or inferred from the embedding model'),
+  embeddingModel: z.string()
+});
+
+/**
+ * Create a Qdrant collection
+ *
+ * Vector size is inferred by embedding a probe text with the configured
+ * embedding model, so the collection always matches what ingest and
+ * search produce.
+ *
+ * @example
+ * ```typescript
+ * const result = await createCollection.call({
+ *   collection: 'knowledge-base',
+ *   distance: 'Cosine'
+ * });
+ * ```
+ */
+export const createCollection = createTool({
+  name: 'qdrant_rag__create_collection',
+  description: 'Create a Qdrant collection; vector size is inferred from the embedding model unless given',
+  input: CreateCollectionInputSchema,
+  output: CreateCollectionOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+
+    const { exists } = await abortable(client.collectionExists(input.collection), context.signal);
+    if (exists) {
+      throw new Error(`Collection "${input.collection}" already exists`);
+    }
+
+    let vectorSize = input.vectorSize;
+    if (!vectorSize) {
+      await context.reportProgress(0, 2, 'Probing embedding dimension');
+      vectorSize = (await generateEmbedding('dimension probe', context.signal)).length;
+
+      if (vectorSize === 0) {
+        throw new Error('Failed to infer vector size: embedding API returned an empty vector');
+      }
+    }
+
+    const vectorParams = { size: vectorSize, distance: input.distance };
+    const vectors = input.vectorNames
+      ? Object.fromEntries(input.vectorNames.map(name => [name, vectorParams]))
+      : vectorParams;
+
+    await context.reportProgress(1, 2, `Creating collection ${input.collection}`);
+
+    try {
+      await abortable(client.createCollection(input.collection, {
+        vectors,
+        // IDF is computed by Qdrant; ingest stores BM25 term-frequency weights
+        ...(input.sparseVectorName && {
+          sparse_vectors: { [input.sparseVectorName]: { modifier: 'idf' as const } }
+        }),
+        on_disk_payload: input.onDiskPayload
+      }), context.signal);
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      throw new Error(`Qdrant create collection failed: ${detail}`);
+    }
+
+    await context.reportProgress(2, 2, `Created collection ${input.collection}`);
+
+    logger.info({
+      collection: input.collection,
+      vectorSize,
+      distance: input.distance,
+      vectorNames: input.vectorNames,
+      sparseVectorName: input.sparseVectorName
+    }, 'Created Qdrant collection');
+
+    return {
+      collection: input.collection,
+      vectorSize,
+      distance: input.distance,
+      ...(input.vectorNames && { vectorNames: input.vectorNames }),
+      ...(input.sparseVectorName && { sparseVectorName: input.sparseVectorName }),
+      sizeSource: input.vectorSize ? 'input' as const : 'probe' as const,
+      embeddingModel: config.qdrant.embeddingModel
+    };
+  }
+});
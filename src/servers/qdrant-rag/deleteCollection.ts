@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient } from './utils.js';
+
+const DeleteCollectionInputSchema = z.object({
+  collection: z.string().min(1).describe('Name of the collection to delete'),
+  confirm: z.literal(true)
+    .describe('Must be true - deleting a collection removes all of its points permanently')
+});
+
+const DeleteCollectionOutputSchema = z.object({
+  collection: z.string(),
+  deleted: z.boolean(),
+  pointsDeleted: z.number().describe('Points in the collection right before deletion')
+});
+
+/**
+ * Delete a Qdrant collection
+ *
+ * Requires `confirm: true`; calls without it are rejected as invalid params.
+ *
+ * @example
+ * ```typescript
+ * const result = await deleteCollection.call({ collection: 'scratch', confirm: true });
+ * ```
+ */
+export const deleteCollection = createTool({
+  name: 'qdrant_rag__delete_collection',
+  description: 'Permanently delete a Qdrant collection and all its points (requires confirm: true)',
+  input: DeleteCollectionInputSchema,
+  output: DeleteCollectionOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+
+    let pointsCount: number;
+    try {
+      const info = await abortable(client.getCollection(input.collection), context.signal);
+      pointsCount = info.points_count ?? 0;
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      throw new Error(`Collection "${input.collection}" not found: ${detail}`);
+    }
+
+    const deleted = await abortable(client.deleteCollection(input.collection), context.signal);
+
+    logger.warn({ collection: input.collection, pointsDeleted: pointsCount, deleted }, 'Deleted Qdrant collection');
+
+    return {
+      collection: input.collection,
+      deleted,
+      pointsDeleted: deleted ? pointsCount : 0
+    };
+  }
+});
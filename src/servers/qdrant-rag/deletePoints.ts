@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient } from './utils.js';
+import { PayloadFilterSchema, toQdrantFilter } from './filter.js';
+import { PointIdSchema } from './points.js';
+
+const DeletePointsInputSchema = z.object({
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  ids: z.array(PointIdSchema).min(1).max(1000).optional()
+    .describe('Point IDs to delete (alternative to filter)'),
+  filter: PayloadFilterSchema.optional()
+    .describe('Delete every point matching this filter (alternative to ids)'),
+  dryRun: z.boolean().optional().default(true)
+    .describe('Only count matching points (default); set false to delete')
+}).refine(input => !!input.ids !== !!input.filter, {
+  message: 'Provide either ids or filter',
+  path: ['ids']
+});
+
+const DeletePointsOutputSchema = z.object({
+  collection: z.string(),
+  dryRun: z.boolean(),
+  matched: z.number().describe('Points matching ids or filter'),
+  deleted: z.number()
+});
+
+/**
+ * Delete Qdrant points by ID or payload filter
+ *
+ * Dry run by default: counts what would be deleted. Call again with
+ * `dryRun: false` to delete. A filter without conditions is rejected so
+ * a collection can't be emptied by accident (use delete_collection for that).
+ *
+ * @example
+ * ```typescript
+ * const preview = await deletePoints.call({ filter: { must: [{ key: 'documentId', match: 'readme' }] } });
+ * // preview.matched: 12
+ * await deletePoints.call({ filter: { must: [{ key: 'documentId', match: 'readme' }] }, dryRun: false });
+ * ```
+ */
+export const deletePoints = createTool({
+  name: 'qdrant_rag__delete_points',
+  description: 'Delete Qdrant points by ID or payload filter (dry run count by default)',
+  input: DeletePointsInputSchema,
+  output: DeletePointsOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+    const filter = toQdrantFilter(input.filter);
+
+    if (input.filter && !filter) {
+      throw new Error('Filter has no conditions - refusing to delete every point');
+    }
+
+    let matched: number;
+    try {
+      if (input.ids) {
+        const existing = await abortable(client.retrieve(input.collection, {
+          ids: input.ids,
+          with_payload: false,
+          with_vector: false
+        }), context.signal);
+        matched = existing.length;
+      } else {
+        const result = await abortable(client.count(input.collection, { filter, exact: true }), context.signal);
+        matched = result.count;
+      }
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      logger.error({ detail, collection: input.collection, filter }, 'Qdrant count failed');
+      throw new Error(`Qdrant count failed: ${detail}`);
+    }
+
+    if (input.dryRun || matched === 0) {
+      logger.info({ collection: input.collection, matched, dryRun: input.dryRun }, 'Counted Qdrant points to delete');
+      return { collection: input.collection, dryRun: input.dryRun, matched, deleted: 0 };
+    }
+
+    try {
+      await abortable(client.delete(input.collection, {
+        wait: true,
+        // Without ids the filter is set - empty filters were rejected above
+        ...(input.ids ? { points: input.ids } : { filter: filter! })
+      }), context.signal);
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      logger.error({ detail, collection: input.collection, filter }, 'Qdrant delete failed');
+      throw new Error(`Qdrant delete failed: ${detail}`);
+    }
+
+    logger.warn({ collection: input.collection, deleted: matched, filter }, 'Deleted Qdrant points');
+
+    return {
+      collection: input.collection,
+      dryRun: false,
+      matched,
+      deleted: matched
+    };
+  }
+});
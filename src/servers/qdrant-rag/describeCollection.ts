@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import type { Schemas } from '@qdrant/js-client-rest';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient } from './utils.js';
+
+const DescribeCollectionInputSchema = z.object({
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name')
+});
+
+const VectorInfoSchema = z.object({
+  name: z.string().nullable().describe('Vector name, null for the unnamed default vector'),
+  size: z.number(),
+  distance: z.string(),
+  onDisk: z.boolean().optional()
+});
+
+const PayloadIndexSchema = z.object({
+  field: z.string(),
+  dataType: z.string(),
+  points: z.number()
+});
+
+const DescribeCollectionOutputSchema = z.object({
+  name: z.string(),
+  status: z.string(),
+  optimizerStatus: z.string().describe('"ok" or the optimizer error message'),
+  pointsCount: z.number(),
+  indexedVectorsCount: z.number(),
+  segmentsCount: z.number(),
+  vectors: z.array(VectorInfoSchema),
+  sparseVectors: z.array(z.string()),
+  payloadIndexes: z.array(PayloadIndexSchema),
+  warnings: z.array(z.string()),
+  config: z.record(z.unknown()).describe('Full collection config (params, hnsw, optimizer, quantization, ...)')
+});
+
+/**
+ * A single unnamed vector has `size` at the top level (unlike a map of named vectors)
+ */
+function isSingleVector(vectorsConfig: Schemas['VectorsConfig']): vectorsConfig is Schemas['VectorParams'] {
+  return 'size' in vectorsConfig && typeof vectorsConfig.size === 'number';
+}
+
+/**
+ * Normalize the vectors config into a list - a single unnamed vector
+ * has `size` at the top level, named vectors are keyed by name
+ */
+function describeVectors(vectorsConfig: Schemas['VectorsConfig'] | undefined): z.infer<typeof VectorInfoSchema>[] {
+  if (!vectorsConfig) return [];
+
+  const entries: Array<[string | null, Schemas['VectorParams'] | undefined]> = isSingleVector(vectorsConfig)
+    ? [[null, vectorsConfig]]
+    : Object.entries(vectorsConfig);
+
+  return entries
+    .filter((entry): entry is [string | null, Schemas['VectorParams']] => entry[1] !== undefined)
+    .map(([name, params]) => ({
+      name,
+      size: params.size,
+      distance: params.distance,
+      ...(params.on_disk !== undefined && params.on_disk !== null && { onDisk: params.on_disk })
+    }));
+}
+
+/**
+ * Describe a Qdrant collection in detail
+ *
+ * Returns what listCollections leaves out: vectors config, payload
+ * indexes, optimizer status, segment count and the raw config.
+ *
+ * @example
+ * ```typescript
+ * const result = await describeCollection.call({ collection: 'knowledge-base' });
+ * console.log(result.vectors, result.payloadIndexes);
+ * ```
+ */
+export const describeCollection = createTool({
+  name: 'qdrant_rag__describe_collection',
+  description: 'Detailed collection info: vectors config, payload indexes, optimizer status, segments',
+  input: DescribeCollectionInputSchema,
+  output: DescribeCollectionOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+
+    let info;
+    try {
+      info = await abortable(client.getCollection(input.collection), context.signal);
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      throw new Error(`Failed to describe collection "${input.collection}": ${detail}`);
+    }
+
+    const optimizerStatus = typeof info.optimizer_status === 'string'
+      ? info.optimizer_status
+      : info.optimizer_status.error;
+
+    logger.info({ collection: input.collection, status: info.status }, 'Described Qdrant collection');
+
+    return {
+      name: input.collection,
+      status: info.status,
+      optimizerStatus,
+      pointsCount: info.points_count ?? 0,
+      indexedVectorsCount: info.indexed_vectors_count ?? 0,
+      segmentsCount: info.segments_count,
+      vectors: describeVectors(info.config.params.vectors),
+      sparseVectors: Object.keys(info.config.params.sparse_vectors ?? {}),
+      payloadIndexes: Object.entries(info.payload_schema).map(([field, index]) => ({
+        field,
+        dataType: index?.data_type ?? 'unknown',
+        points: index?.points ?? 0
+      })),
+      warnings: (info.warnings ?? []).map(warning => warning.message),
+      config: info.config as Record<string, unknown>
+    };
+  }
+});
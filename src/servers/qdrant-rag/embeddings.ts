@@ -0,0 +1,342 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable embedding backends selected with EMBEDDING_PROVIDER:
+ * - `openai` (default) - OpenAI-compatible /v1/embeddings API
+ * - `ollama` - local Ollama-style /api/embed API
+ * - `fake` - deterministic hash-based vectors for tests and offline development
+ *
+ * embedTexts() batches inputs and caches vectors in memory (LRU) and
+ * optionally on disk (PersistentCache, bounded by EMBEDDING_CACHE_MAX_SIZE_MB),
+ * keyed by provider + model + dimensions + text.
+ */
+
+import { createHash } from 'node:crypto';
+import { config } from '../../config.js';
+import { logger } from '../../utils/logger.js';
+import { withTimeout } from '../../utils/abort.js';
+import { PersistentCache } from '../../utils/persistent-cache.js';
+
+export interface EmbeddingProvider {
+  /** Provider type (openai, ollama, fake) */
+  name: string;
+  model: string;
+  /** Embed texts, returning one vector per text in input order */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderOptions {
+  model: string;
+  endpoint?: string;
+  apiKey?: string;
+  /** Requested vector size; 0 keeps the model default */
+  dimensions?: number;
+}
+
+const DEFAULT_ENDPOINTS: Record<string, string> = {
+  openai: 'https://api.openai.com/v1/embeddings',
+  ollama: 'http://localhost:11434/api/embed'
+};
+
+/**
+ * Vector size of the fake provider when EMBEDDING_DIMENSIONS is not set
+ */
+const FAKE_DEFAULT_DIMENSIONS = 384;
+
+/**
+ * Response of an OpenAI-compatible /v1/embeddings endpoint
+ */
+interface OpenAIEmbeddingResponse {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+/**
+ * Response of an Ollama-style /api/embed endpoint
+ */
+interface OllamaEmbeddingResponse {
+  embeddings?: number[][];
+}
+
+/**
+ * OpenAI-compatible embeddings API (OpenAI, Azure-style proxies, vLLM, LiteLLM, ...)
+ */
+export function createOpenAIProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  const endpoint = options.endpoint || DEFAULT_ENDPOINTS.openai;
+
+  return {
+    name: 'openai',
+    model: options.model,
+    embed: async (texts, signal) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${options.apiKey}`
+        },
+        body: JSON.stringify({
+          model: options.model,
+          input: texts,
+          ...(options.dimensions && { dimensions: options.dimensions })
+        }),
+        signal: withTimeout(signal)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as OpenAIEmbeddingResponse;
+      const items = data.data || [];
+
+      return items
+        .map((item, position) => ({ index: item.index ?? position, embedding: item.embedding }))
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding || []);
+    }
+  };
+}
+
+/**
+ * Ollama-style local embeddings API: { model, input } → { embeddings }
+ */
+export function createOllamaProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  const endpoint = options.endpoint || DEFAULT_ENDPOINTS.ollama;
+
+  return {
+    name: 'ollama',
+    model: options.model,
+    embed: async (texts, signal) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey && { 'Authorization': `Bearer ${options.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: options.model,
+          input: texts,
+          ...(options.dimensions && { dimensions: options.dimensions })
+        }),
+        signal: withTimeout(signal)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama embedding API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as OllamaEmbeddingResponse;
+      return data.embeddings || [];
+    }
+  };
+}
+
+/**
+ * Deterministic fake embeddings: the same text always maps to the same
+ * unit vector. No network, no API key.
+ */
+export function createFakeProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  const dimensions = options.dimensions || FAKE_DEFAULT_DIMENSIONS;
+
+  return {
+    name: 'fake',
+    model: options.model,
+    embed: async (texts) => texts.map(text => {
+      const vector: number[] = [];
+      let block = 0;
+
+      while (vector.length < dimensions) {
+        const digest = createHash('sha256').update(`${block++}:${text}`).digest();
+        for (let i = 0; i + 1 < digest.length && vector.length < dimensions; i += 2) {
+          vector.push(digest.readUInt16BE(i) / 32767.5 - 1);
+        }
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    })
+  };
+}
+
+const PROVIDER_FACTORIES: Record<string, (options: EmbeddingProviderOptions) => EmbeddingProvider> = {
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+  fake: createFakeProvider
+};
+
+/**
+ * Create a provider by type
+ */
+export function createEmbeddingProvider(type: string, options: EmbeddingProviderOptions): EmbeddingProvider {
+  const factory = PROVIDER_FACTORIES[type.toLowerCase()];
+
+  if (!factory) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${type}" (expected: ${Object.keys(PROVIDER_FACTORIES).join(', ')})`);
+  }
+
+  return factory(options);
+}
+
+export interface EmbeddingDiskOptions {
+  /** Maximum bytes on disk (0 = unlimited); oldest vectors are evicted first */
+  maxBytes: number;
+}
+
+/**
+ * Two-level embedding cache: in-memory LRU plus an optional on-disk
+ * PersistentCache (namespace "embeddings" under the given directory).
+ * Vectors never expire - the key pins provider, model and dimensions -
+ * but the disk layer is size-bounded. Disk errors are treated as misses.
+ */
+export class EmbeddingCache {
+  private readonly memory = new Map<string, number[]>();
+  private readonly disk?: PersistentCache<number[]>;
+  hits = 0;
+  misses = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    directory?: string,
+    diskOptions: EmbeddingDiskOptions = { maxBytes: 0 }
+  ) {
+    if (directory) {
+      this.disk = new PersistentCache('embeddings', { directory, ttlMs: 0, maxBytes: diskOptions.maxBytes });
+    }
+  }
+
+  /**
+   * Cache key for a text embedded by a given provider/model
+   */
+  static key(provider: EmbeddingProvider, dimensions: number, text: string): string {
+    return createHash('sha256')
+      .update(`${provider.name}\0${provider.model}\0${dimensions}\0${text}`)
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<number[] | undefined> {
+    const cached = this.memory.get(key);
+
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.hits++;
+      return cached;
+    }
+
+    const stored = await this.disk?.get(key);
+    if (stored) {
+      this.remember(key, stored);
+      this.hits++;
+      return stored;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, vector: number[]): Promise<void> {
+    this.remember(key, vector);
+    await this.disk?.set(key, vector);
+  }
+
+  get size(): number {
+    return this.memory.size;
+  }
+
+  private remember(key: string, vector: number[]) {
+    if (this.maxEntries <= 0) return;
+
+    this.memory.delete(key);
+    this.memory.set(key, vector);
+
+    while (this.memory.size > this.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+let defaultCache: EmbeddingCache | null = null;
+
+/**
+ * Provider configured through EMBEDDING_* environment variables
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  defaultProvider ??= createEmbeddingProvider(config.qdrant.embeddingProvider, {
+    model: config.qdrant.embeddingModel,
+    endpoint: config.qdrant.embeddingEndpoint,
+    apiKey: config.qdrant.embeddingApiKey || config.ai.apiKey,
+    dimensions: config.qdrant.embeddingDimensions
+  });
+  return defaultProvider;
+}
+
+/**
+ * Cache configured through EMBEDDING_CACHE_SIZE / EMBEDDING_CACHE_DIR / EMBEDDING_CACHE_MAX_SIZE_MB
+ */
+export function getEmbeddingCache(): EmbeddingCache {
+  defaultCache ??= new EmbeddingCache(
+    config.qdrant.embeddingCacheSize,
+    config.qdrant.embeddingCacheDir || undefined,
+    { maxBytes: config.qdrant.embeddingCacheMaxSizeMb * 1024 * 1024 }
+  );
+  return defaultCache;
+}
+
+export interface EmbedOptions {
+  signal?: AbortSignal;
+  /** Texts per provider request (default EMBEDDING_BATCH_SIZE) */
+  batchSize?: number;
+  provider?: EmbeddingProvider;
+  cache?: EmbeddingCache;
+}
+
+/**
+ * Embed texts with caching and batching. Only cache misses are sent to
+ * the provider, in batches of batchSize. Vectors are returned in input order.
+ */
+export async function embedTexts(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+  const provider = options.provider ?? getEmbeddingProvider();
+  const cache = options.cache ?? getEmbeddingCache();
+  const batchSize = options.batchSize ?? config.qdrant.embeddingBatchSize;
+  const dimensions = config.qdrant.embeddingDimensions;
+
+  const keys = texts.map(text => EmbeddingCache.key(provider, dimensions, text));
+  const vectors: Array<number[] | undefined> = await Promise.all(keys.map(key => cache.get(key)));
+
+  // Embed each distinct missing text once
+  const missing = new Map<string, number[]>();
+  texts.forEach((text, index) => {
+    if (!vectors[index]) missing.set(text, [...(missing.get(text) ?? []), index]);
+  });
+  const missingTexts = Array.from(missing.keys());
+
+  for (let i = 0; i < missingTexts.length; i += batchSize) {
+    options.signal?.throwIfAborted();
+
+    const batch = missingTexts.slice(i, i + batchSize);
+    const embedded = await provider.embed(batch, options.signal);
+
+    if (embedded.length !== batch.length || embedded.some(vector => !vector?.length)) {
+      throw new Error(`Embedding provider ${provider.name} returned ${embedded.length} vectors for ${batch.length} texts`);
+    }
+
+    await Promise.all(batch.map(async (text, index) => {
+      await cache.set(EmbeddingCache.key(provider, dimensions, text), embedded[index]);
+      for (const position of missing.get(text)!) {
+        vectors[position] = embedded[index];
+      }
+    }));
+  }
+
+  logger.debug({
+    provider: provider.name,
+    model: provider.model,
+    texts: texts.length,
+    embedded: missingTexts.length,
+    cacheHits: cache.hits,
+    cacheMisses: cache.misses
+  }, 'Embedded texts');
+
+  return vectors as number[][];
+}
@@ -0,0 +1,144 @@
+/**
+ * Payload Filter DSL
+ *
+ * Small, typed filter language for tool inputs, translated into Qdrant
+ * filter objects by toQdrantFilter().
+ *
+ * A filter has up to three condition lists:
+ * - `must` - every condition has to match
+ * - `should` - at least one condition has to match
+ * - `mustNot` - no condition may match
+ *
+ * Each condition targets one payload `key` (dot notation for nested keys,
+ * e.g. `meta.project`) with exactly one of:
+ * - `match` - equals a value, or any of an array of strings or of numbers
+ * - `range` - numeric bounds (`gt`, `gte`, `lt`, `lte`)
+ * - `dateRange` - date/datetime bounds as ISO 8601 strings
+ *
+ * @example
+ * ```json
+ * {
+ *   "must": [
+ *     { "key": "project", "match": "devrk-mcp" },
+ *     { "key": "updatedAt", "dateRange": { "gte": "2025-06-01" } }
+ *   ],
+ *   "mustNot": [{ "key": "status", "match": ["draft", "archived"] }]
+ * }
+ * ```
+ */
+
+import { z } from 'zod';
+import type { Schemas } from '@qdrant/js-client-rest';
+
+const MatchValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * Qdrant matches "any of" only within one type: all strings or all numbers
+ */
+const MatchAnySchema = z.union([z.array(z.string()).min(1), z.array(z.number()).min(1)]);
+
+const RangeSchema = z.object({
+  gt: z.number().optional(),
+  gte: z.number().optional(),
+  lt: z.number().optional(),
+  lte: z.number().optional()
+}).refine(range => Object.values(range).some(bound => bound !== undefined), {
+  message: 'Range needs at least one of gt, gte, lt, lte'
+});
+
+const DateBoundSchema = z.union([
+  z.string().datetime({ offset: true }),
+  z.string().date()
+]).describe('ISO 8601 date (2025-06-01) or datetime (2025-06-01T12:00:00Z)');
+
+const DateRangeSchema = z.object({
+  gt: DateBoundSchema.optional(),
+  gte: DateBoundSchema.optional(),
+  lt: DateBoundSchema.optional(),
+  lte: DateBoundSchema.optional()
+}).refine(range => Object.values(range).some(bound => bound !== undefined), {
+  message: 'Date range needs at least one of gt, gte, lt, lte'
+});
+
+export const FilterConditionSchema = z.object({
+  key: z.string().min(1).describe('Payload key, dot notation for nested keys'),
+  match: z.union([MatchValueSchema, MatchAnySchema]).optional()
+    .describe('Exact value, or array of strings or of numbers (matches any)'),
+  range: RangeSchema.optional().describe('Numeric range'),
+  dateRange: DateRangeSchema.optional().describe('Date range on ISO 8601 payload values')
+}).refine(
+  condition => [condition.match, condition.range, condition.dateRange].filter(part => part !== undefined).length === 1,
+  { message: 'Condition needs exactly one of match, range, dateRange' }
+);
+
+export const PayloadFilterSchema = z.object({
+  must: z.array(FilterConditionSchema).optional().describe('All conditions must match'),
+  should: z.array(FilterConditionSchema).optional().describe('At least one condition must match'),
+  mustNot: z.array(FilterConditionSchema).optional().describe('No condition may match')
+}).describe('Payload filter: must/should/mustNot conditions with match, range or dateRange');
+
+export type FilterCondition = z.infer<typeof FilterConditionSchema>;
+export type PayloadFilter = z.infer<typeof PayloadFilterSchema>;
+
+/**
+ * Qdrant filter object as typed by the REST client
+ */
+export type QdrantFilter = Schemas['Filter'];
+
+/**
+ * Date-only bounds start at midnight UTC
+ */
+function toDatetime(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value;
+}
+
+/**
+ * Drop undefined bounds so Qdrant gets only the bounds that were set
+ */
+function definedBounds<T>(bounds: Record<string, T | undefined>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(bounds).filter(([, value]) => value !== undefined)
+  ) as Record<string, T>;
+}
+
+/**
+ * Translate a single DSL condition into a Qdrant field condition
+ */
+function toQdrantCondition(condition: FilterCondition): Schemas['FieldCondition'] {
+  const { key, match, range, dateRange } = condition;
+
+  if (match !== undefined) {
+    return { key, match: Array.isArray(match) ? { any: match } : { value: match } };
+  }
+
+  if (range) {
+    return { key, range: definedBounds(range) };
+  }
+
+  return {
+    key,
+    range: definedBounds({
+      gt: toDatetime(dateRange!.gt),
+      gte: toDatetime(dateRange!.gte),
+      lt: toDatetime(dateRange!.lt),
+      lte: toDatetime(dateRange!.lte)
+    })
+  };
+}
+
+/**
+ * Translate a DSL filter into a Qdrant filter.
+ * Returns undefined for a missing or empty filter.
+ */
+export function toQdrantFilter(filter: PayloadFilter | undefined): QdrantFilter | undefined {
+  if (!filter) return undefined;
+
+  const qdrantFilter: QdrantFilter = {};
+
+  if (filter.must?.length) qdrantFilter.must = filter.must.map(toQdrantCondition);
+  if (filter.should?.length) qdrantFilter.should = filter.should.map(toQdrantCondition);
+  if (filter.mustNot?.length) qdrantFilter.must_not = filter.mustNot.map(toQdrantCondition);
+
+  return Object.keys(qdrantFilter).length > 0 ? qdrantFilter : undefined;
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient } from './utils.js';
+import { PointIdSchema, PointSchema, PointSelectionSchema, selectionOptions, toPoint } from './points.js';
+
+const GetPointsInputSchema = PointSelectionSchema.extend({
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  ids: z.array(PointIdSchema).min(1).max(256)
+    .describe('Point IDs to fetch')
+});
+
+const GetPointsOutputSchema = z.object({
+  collection: z.string(),
+  points: z.array(PointSchema),
+  found: z.number(),
+  missing: z.array(z.union([z.string(), z.number()])).describe('Requested IDs that do not exist')
+});
+
+/**
+ * Fetch Qdrant points by ID
+ *
+ * Returns content and metadata with the same payload convention as search;
+ * `fields` limits the metadata keys, `withVectors` adds stored vectors.
+ *
+ * @example
+ * ```typescript
+ * const result = await getPoints.call({ ids: [hit.id], fields: ['source', 'section'] });
+ * ```
+ */
+export const getPoints = createTool({
+  name: 'qdrant_rag__get_points',
+  description: 'Fetch Qdrant points by ID with their content and metadata',
+  input: GetPointsInputSchema,
+  output: GetPointsOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+
+    let records: Awaited<ReturnType<typeof client.retrieve>>;
+    try {
+      records = await abortable(client.retrieve(input.collection, {
+        ids: input.ids,
+        ...selectionOptions(input)
+      }), context.signal);
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      logger.error({ detail, collection: input.collection }, 'Qdrant retrieve failed');
+      throw new Error(`Qdrant retrieve failed: ${detail}`);
+    }
+
+    const foundIds = new Set(records.map(record => String(record.id)));
+    const missing = input.ids.filter(id => !foundIds.has(String(id)));
+
+    logger.info({ collection: input.collection, requested: input.ids.length, found: records.length }, 'Fetched Qdrant points');
+
+    return {
+      collection: input.collection,
+      points: records.map(record => toPoint(record, input)),
+      found: records.length,
+      missing
+    };
+  }
+});
@@ -6,3 +6,18 @@
 
 export * from './search.js';
 export * from './listCollections.js';
+export * from './ingest.js';
+export * from './createCollection.js';
+export * from './deleteCollection.js';
+export * from './describeCollection.js';
+export * from './answer.js';
+export * from './getPoints.js';
+export * from './scroll.js';
+export * from './deletePoints.js';
+export * from './points.js';
+export * from './chunking.js';
+export * from './sparse.js';
+export * from './filter.js';
+export * from './rerank.js';
+export * from './embeddings.js';
+export * from './utils.js';
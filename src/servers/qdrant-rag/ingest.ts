@@ -0,0 +1,282 @@
+import { z } from 'zod';
+import { createTool, type ToolContext } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { chunkMarkdown, chunkText, type TextChunk } from './chunking.js';
+import { buildSparseVector } from './sparse.js';
+import {
+  assertVectorSize,
+  buildPayload,
+  chunkPointId,
+  contentDocumentId,
+  createQdrantClient,
+  detectVectors,
+  generateEmbeddings
+} from './utils.js';
+
+const DocumentSchema = z.object({
+  content: z.string().min(1).describe('Document text'),
+  id: z.string().optional()
+    .describe('Stable document ID - re-ingesting the same ID overwrites its chunks (defaults to a content hash)'),
+  metadata: z.record(z.unknown()).optional()
+    .describe('Metadata stored with every chunk (e.g. source, title, tags)')
+});
+
+const IngestInputSchema = z.object({
+  text: z.string().min(1).optional()
+    .describe('Single raw text or markdown document (alternative to documents)'),
+  metadata: z.record(z.unknown()).optional()
+    .describe('Metadata for the text document'),
+  documents: z.array(DocumentSchema).min(1).optional()
+    .describe('Documents with metadata (alternative to text)'),
+  format: z.enum(['text', 'markdown']).optional().default('text')
+    .describe('markdown splits on headings first and stores the heading path as "section"'),
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  chunkSize: z.number().int().min(100).max(8000).optional()
+    .default(config.qdrant.defaultChunkSize)
+    .describe('Maximum chunk length in characters'),
+  chunkOverlap: z.number().int().min(0).max(2000).optional()
+    .default(config.qdrant.defaultChunkOverlap)
+    .describe('Characters shared between consecutive chunks'),
+  batchSize: z.number().int().min(1).max(256).optional()
+    .default(config.qdrant.embeddingBatchSize)
+    .describe('Chunks per embedding request and upsert'),
+  vectorName: z.string().optional()
+    .describe('Named vector to store embeddings under (auto-detected if not provided)')
+}).refine(input => !!input.text !== !!input.documents, {
+  message: 'Provide either text or documents',
+  path: ['documents']
+}).refine(input => input.chunkOverlap < input.chunkSize, {
+  message: 'chunkOverlap must be smaller than chunkSize',
+  path: ['chunkOverlap']
+});
+
+const IngestOutputSchema = z.object({
+  collection: z.string(),
+  documents: z.number(),
+  chunks: z.number(),
+  upserted: z.number(),
+  vectorName: z.string().optional(),
+  sparseVectorName: z.string().optional().describe('Sparse vector that also received BM25 weights (hybrid search)'),
+  documentIds: z.array(z.string())
+});
+
+/**
+ * Chunk ready for embedding: point ID, text to embed and full payload
+ */
+export interface PreparedPoint {
+  id: string;
+  content: string;
+  payload: Record<string, unknown>;
+}
+
+export interface UpsertOptions {
+  batchSize: number;
+  /** Named vector to store embeddings under (auto-detected if not provided) */
+  vectorName?: string;
+}
+
+export interface UpsertResult {
+  upserted: number;
+  vectorName?: string;
+  sparseVectorName?: string;
+}
+
+/**
+ * Embed prepared points in batches and upsert them into a collection.
+ * Writes BM25 weights too when the collection has a sparse vector.
+ * Reports progress as points upserted out of points.length.
+ */
+export async function upsertPoints(
+  collection: string,
+  points: PreparedPoint[],
+  options: UpsertOptions,
+  context: ToolContext
+): Promise<UpsertResult> {
+  const client = createQdrantClient();
+  const detected = await detectVectors(client, collection, context.signal);
+  const vectorName = options.vectorName ?? detected.vectorName;
+  const sparseVectorName = detected.sparseVectorName;
+
+  let upserted = 0;
+  await context.reportProgress(0, points.length, `Embedding ${points.length} chunks`);
+
+  for (let i = 0; i < points.length; i += options.batchSize) {
+    context.signal.throwIfAborted();
+
+    const batch = points.slice(i, i + options.batchSize);
+    const vectors = await generateEmbeddings(batch.map(point => point.content), context.signal);
+
+    if (vectors.length !== batch.length || vectors.some(vector => vector.length === 0)) {
+      throw new Error(`Embedding API returned ${vectors.length} vectors for ${batch.length} chunks`);
+    }
+
+    if (i === 0) {
+      assertVectorSize(collection, detected, vectorName, vectors[0].length);
+    }
+
+    try {
+      await abortable(client.upsert(collection, {
+        wait: true,
+        points: batch.map((point, index) => ({
+          id: point.id,
+          vector: sparseVectorName
+            ? {
+              // Unnamed dense vector is addressed as "" next to named sparse vectors
+              [vectorName ?? '']: vectors[index],
+              [sparseVectorName]: buildSparseVector(point.content, 'document')
+            }
+            : vectorName ? { [vectorName]: vectors[index] } : vectors[index],
+          payload: point.payload
+        }))
+      }), context.signal);
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      logger.error({ detail, collection, vectorName }, 'Qdrant upsert failed');
+      throw new Error(`Qdrant upsert failed: ${detail}`);
+    }
+
+    upserted += batch.length;
+    await context.reportProgress(upserted, points.length, `Upserted ${upserted}/${points.length} chunks`);
+  }
+
+  return { upserted, vectorName, sparseVectorName };
+}
+
+/**
+ * Delete chunks left behind by an earlier, longer version of each document
+ * (same documentId, chunkIndex >= the new chunkCount). Run after upserting
+ * so re-ingesting a document replaces it without a window where it is missing.
+ */
+export async function deleteStaleChunks(
+  collection: string,
+  documents: Array<{ documentId: string; chunkCount: number }>,
+  signal: AbortSignal
+): Promise<void> {
+  const client = createQdrantClient();
+
+  for (const { documentId, chunkCount } of documents) {
+    signal.throwIfAborted();
+
+    try {
+      await abortable(client.delete(collection, {
+        wait: true,
+        filter: {
+          must: [
+            { key: 'documentId', match: { value: documentId } },
+            { key: 'chunkIndex', range: { gte: chunkCount } }
+          ]
+        }
+      }), signal);
+    } catch (err: any) {
+      signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      logger.error({ detail, collection, documentId }, 'Qdrant stale chunk delete failed');
+      throw new Error(`Qdrant delete of stale chunks failed: ${detail}`);
+    }
+  }
+}
+
+/**
+ * Ingest documents into Qdrant vector database
+ *
+ * Splits text/markdown into overlapping chunks, embeds them in batches
+ * through the same endpoint search uses, and upserts one point per chunk.
+ *
+ * Payload layout (read back by qdrant_rag__search):
+ * - `content` - chunk text
+ * - document metadata as top-level keys
+ * - `documentId`, `chunkIndex`, `chunkCount` and `section` (markdown)
+ *
+ * When the collection has a sparse vector, chunks also get BM25 weights
+ * for hybrid search. Re-ingesting a documentId overwrites its chunks and
+ * deletes the ones a shorter new version no longer has.
+ *
+ * @example
+ * ```typescript
+ * const result = await ingest.call({
+ *   documents: [{ content: readme, id: 'readme', metadata: { source: 'README.md' } }],
+ *   format: 'markdown',
+ *   collection: 'knowledge-base'
+ * });
+ * ```
+ */
+export const ingest = createTool({
+  name: 'qdrant_rag__ingest',
+  description: 'Split text or markdown documents into chunks, embed them and upsert into a Qdrant collection',
+  input: IngestInputSchema,
+  output: IngestOutputSchema,
+  timeout: config.timeout.long,
+  execute: async (input, context) => {
+    const documents = input.documents ?? [{ content: input.text!, metadata: input.metadata }];
+    const chunkOptions = { chunkSize: input.chunkSize, chunkOverlap: input.chunkOverlap };
+
+    const points: PreparedPoint[] = [];
+    const documentIds: string[] = [];
+    const chunkCounts: Array<{ documentId: string; chunkCount: number }> = [];
+
+    for (const document of documents) {
+      const documentId = document.id ?? contentDocumentId(document.content);
+      const chunks: TextChunk[] = input.format === 'markdown'
+        ? chunkMarkdown(document.content, chunkOptions)
+        : chunkText(document.content, chunkOptions).map(content => ({ content }));
+
+      documentIds.push(documentId);
+      chunkCounts.push({ documentId, chunkCount: chunks.length });
+
+      chunks.forEach((chunk, chunkIndex) => {
+        points.push({
+          id: chunkPointId(documentId, chunkIndex),
+          content: chunk.content,
+          payload: buildPayload(chunk.content, {
+            ...document.metadata,
+            documentId,
+            chunkIndex,
+            chunkCount: chunks.length,
+            ...(chunk.section && { section: chunk.section })
+          })
+        });
+      });
+    }
+
+    logger.info({
+      collection: input.collection,
+      documents: documents.length,
+      chunks: points.length,
+      format: input.format
+    }, 'Starting Qdrant ingest');
+
+    if (points.length === 0) {
+      throw new Error('Documents produced no chunks to ingest');
+    }
+
+    const { upserted, vectorName, sparseVectorName } = await upsertPoints(input.collection, points, {
+      batchSize: input.batchSize,
+      vectorName: input.vectorName
+    }, context);
+    await deleteStaleChunks(input.collection, chunkCounts, context.signal);
+
+    logger.info({
+      collection: input.collection,
+      upserted,
+      vectorName: vectorName || '(default)',
+      sparseVectorName
+    }, 'Qdrant ingest completed');
+
+    return {
+      collection: input.collection,
+      documents: documents.length,
+      chunks: points.length,
+      upserted,
+      ...(vectorName && { vectorName }),
+      ...(sparseVectorName && { sparseVectorName }),
+      documentIds
+    };
+  }
+});
@@ -2,7 +2,8 @@ import { z } from 'zod';
 import { createTool } from '../../utils/tool-factory.js';
 import { logger } from '../../utils/logger.js';
 import { config } from '../../config.js';
-import { QdrantClient } from '@qdrant/js-client-rest';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient } from './utils.js';
 
 const ListCollectionsInputSchema = z.object({});
 
@@ -33,21 +34,23 @@ export const listCollections = createTool({
   name: 'qdrant_rag__list_collections',
   input: ListCollectionsInputSchema,
   output: ListCollectionsOutputSchema,
-  execute: async () => {
+  timeout: config.timeout.default,
+  execute: async (_input, context) => {
     logger.info('Listing Qdrant collections');
 
-    const client = new QdrantClient({
-      url: config.qdrant.url,
-      apiKey: config.qdrant.apiKey || undefined,
-      timeout: config.timeout.default
-    });
+    const client = createQdrantClient();
 
-    const response = await client.getCollections();
+    const response = await abortable(client.getCollections(), context.signal);
+    const total = response.collections.length;
+    let described = 0;
+
+    await context.reportProgress(0, total, `Found ${total} collections`);
 
     const collections = await Promise.all(
       response.collections.map(async (col) => {
         try {
-          const info = await client.getCollection(col.name);
+          const info = await abortable(client.getCollection(col.name), context.signal);
+          await context.reportProgress(++described, total, `Described collection: ${col.name}`);
           return {
             name: col.name,
             vectorsCount: (info as any).vectors_count ?? info.indexed_vectors_count ?? 0,
@@ -55,6 +58,8 @@ export const listCollections = createTool({
             status: info.status
           };
         } catch {
+          context.signal.throwIfAborted();
+          await context.reportProgress(++described, total, `Failed to describe collection: ${col.name}`);
           return {
             name: col.name,
             vectorsCount: 0,
@@ -0,0 +1,10 @@
+import type { ServerManifest } from '../../types/index.js';
+
+/**
+ * Qdrant RAG server manifest - read by tool discovery
+ */
+export const manifest: ServerManifest = {
+  name: 'qdrant-rag',
+  description: 'Qdrant RAG - semantic search and knowledge base operations',
+  version: '1.0.0'
+};
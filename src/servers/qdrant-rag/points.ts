@@ -0,0 +1,66 @@
+/**
+ * Point Records
+ *
+ * Shared schemas and helpers for the point-level tools (get_points, scroll,
+ * delete_points). Payloads are read back with the same `content`/`text`
+ * convention as search (see splitPayload).
+ */
+
+import { z } from 'zod';
+import { splitPayload } from './utils.js';
+
+export const PointIdSchema = z.union([z.string().min(1), z.number().int().nonnegative()])
+  .describe('Point ID (UUID string or unsigned integer)');
+
+/**
+ * Input fields controlling what is returned for each point
+ */
+export const PointSelectionSchema = z.object({
+  fields: z.array(z.string().min(1)).optional()
+    .describe('Payload keys to return as metadata (default: all)'),
+  includeContent: z.boolean().optional().default(true)
+    .describe('Return the point text (payload content/text)'),
+  withVectors: z.boolean().optional().default(false)
+    .describe('Return stored vectors')
+});
+
+export const PointSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  content: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  vector: z.unknown().optional()
+});
+
+export type PointSelection = z.infer<typeof PointSelectionSchema>;
+export type Point = z.infer<typeof PointSchema>;
+
+/**
+ * Qdrant with_payload / with_vector options for a selection
+ */
+export function selectionOptions(selection: PointSelection): { with_payload: boolean | { include: string[] }; with_vector: boolean } {
+  const include = selection.fields
+    ? [...selection.fields, ...(selection.includeContent ? ['content', 'text'] : [])]
+    : undefined;
+
+  return {
+    with_payload: include ? { include } : true,
+    with_vector: selection.withVectors
+  };
+}
+
+/**
+ * Turn a Qdrant record into a point result
+ */
+export function toPoint(
+  record: { id: string | number; payload?: Record<string, unknown> | null; vector?: unknown },
+  selection: PointSelection
+): Point {
+  const { content, metadata } = splitPayload(record.payload);
+
+  return {
+    id: record.id,
+    ...(selection.includeContent && { content }),
+    ...(metadata && { metadata }),
+    ...(selection.withVectors && record.vector !== undefined && { vector: record.vector })
+  };
+}
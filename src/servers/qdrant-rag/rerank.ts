@@ -0,0 +1,163 @@
+/**
+ * Reranking
+ *
+ * Reorders search candidates by relevance to the query using either:
+ * - `endpoint` - an OpenAI/Cohere/Jina-compatible rerank API (RERANK_ENDPOINT)
+ * - `llm` - the chat provider from ai-summarizer.ts as a relevance judge
+ *
+ * Both return one score per candidate (higher is more relevant), in input order.
+ */
+
+import { z } from 'zod';
+import { config } from '../../config.js';
+import { logger } from '../../utils/logger.js';
+import { withTimeout } from '../../utils/abort.js';
+import { complete } from '../../utils/ai-summarizer.js';
+import { ToolError } from '../../types/index.js';
+
+export type RerankProvider = 'endpoint' | 'llm';
+
+/**
+ * Characters of each candidate sent to the LLM judge
+ */
+const LLM_MAX_CANDIDATE_CHARS = 800;
+
+const JUDGE_PROMPT = 'You are a search relevance judge. Rate how well each numbered passage answers the query ' +
+  'on a scale from 0 (irrelevant) to 10 (fully answers it). ' +
+  'Respond with only a JSON array of numbers, one per passage, in passage order.';
+
+/**
+ * Rerank endpoint response: Cohere/Jina use `results` + `relevance_score`,
+ * some OpenAI-compatible servers `data` + `score`
+ */
+const RerankResultSchema = z.object({
+  index: z.number().int(),
+  relevance_score: z.number().optional(),
+  score: z.number().optional()
+});
+
+const RerankResponseSchema = z.object({
+  results: z.array(RerankResultSchema).optional(),
+  data: z.array(RerankResultSchema).optional()
+});
+
+type RerankResponse = z.infer<typeof RerankResponseSchema>;
+
+/**
+ * Score candidates with a rerank endpoint.
+ * Request: { model, query, documents, top_n }; response: { results: [{ index, relevance_score }] }
+ */
+async function rerankWithEndpoint(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+  if (!config.qdrant.rerankEndpoint) {
+    throw new Error('RERANK_ENDPOINT is not set');
+  }
+
+  const response = await fetch(config.qdrant.rerankEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${config.qdrant.rerankApiKey || config.ai.apiKey}`
+    },
+    body: JSON.stringify({
+      ...(config.qdrant.rerankModel && { model: config.qdrant.rerankModel }),
+      query,
+      documents,
+      top_n: documents.length
+    }),
+    signal: withTimeout(signal)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Rerank API error: ${response.status} ${response.statusText}`);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error: any) {
+    throw new ToolError('qdrant_rag__search', `Rerank response is not JSON: ${error.message}`, error);
+  }
+
+  const parsed = RerankResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join(', ');
+    throw new ToolError('qdrant_rag__search', `Malformed rerank response: ${issues}`);
+  }
+
+  const data: RerankResponse = parsed.data;
+  const results = data.results ?? data.data ?? [];
+
+  // Candidates missing from the response rank last
+  const scores = documents.map(() => 0);
+  for (const result of results) {
+    if (result.index >= 0 && result.index < documents.length) {
+      scores[result.index] = result.relevance_score ?? result.score ?? 0;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Parse the judge's JSON array of 0-10 ratings into [0, 1] scores
+ */
+export function parseJudgeScores(text: string, count: number): number[] {
+  const match = /\[[\s\S]*?\]/.exec(text);
+  if (!match) {
+    throw new Error('LLM judge did not return a JSON array');
+  }
+
+  const ratings = JSON.parse(match[0]);
+  if (!Array.isArray(ratings) || ratings.length !== count) {
+    throw new Error(`LLM judge returned ${Array.isArray(ratings) ? ratings.length : 0} ratings for ${count} passages`);
+  }
+
+  return ratings.map(rating => {
+    const value = Number(rating);
+    return Number.isFinite(value) ? Math.min(Math.max(value, 0), 10) / 10 : 0;
+  });
+}
+
+/**
+ * Score candidates with the configured chat model in a single call
+ */
+async function rerankWithLlm(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+  const passages = documents
+    .map((document, index) => {
+      const text = document.length > LLM_MAX_CANDIDATE_CHARS
+        ? document.substring(0, LLM_MAX_CANDIDATE_CHARS) + '...'
+        : document;
+      return `[${index + 1}] ${text.replace(/\s+/g, ' ')}`;
+    })
+    .join('\n\n');
+
+  const answer = await complete(JUDGE_PROMPT, `Query: ${query}\n\nPassages:\n${passages}`, {
+    maxTokens: 20 + documents.length * 6,
+    temperature: 0,
+    signal
+  });
+
+  return parseJudgeScores(answer, documents.length);
+}
+
+/**
+ * Score documents by relevance to the query
+ *
+ * @returns Scores in [0, 1] (endpoint scores as returned), aligned with documents
+ */
+export async function rerank(
+  query: string,
+  documents: string[],
+  provider: RerankProvider,
+  signal?: AbortSignal
+): Promise<number[]> {
+  if (documents.length === 0) {
+    return [];
+  }
+
+  logger.debug({ provider, candidates: documents.length }, 'Reranking search candidates');
+
+  return provider === 'endpoint'
+    ? await rerankWithEndpoint(query, documents, signal)
+    : await rerankWithLlm(query, documents, signal);
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { abortable } from '../../utils/abort.js';
+import { createQdrantClient } from './utils.js';
+import { PayloadFilterSchema, toQdrantFilter } from './filter.js';
+import { PointIdSchema, PointSchema, PointSelectionSchema, selectionOptions, toPoint } from './points.js';
+
+const ScrollInputSchema = PointSelectionSchema.extend({
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  limit: z.number().int().min(1).max(256).optional().default(20)
+    .describe('Points per page'),
+  cursor: PointIdSchema.optional()
+    .describe('nextCursor from the previous page (omit for the first page)'),
+  filter: PayloadFilterSchema.optional()
+});
+
+const ScrollOutputSchema = z.object({
+  collection: z.string(),
+  points: z.array(PointSchema),
+  nextCursor: z.union([z.string(), z.number()]).nullable()
+    .describe('Pass as cursor to get the next page; null on the last page')
+});
+
+/**
+ * Page through the points of a Qdrant collection
+ *
+ * Points come in ID order. Pass `nextCursor` back as `cursor` until it is
+ * null. `filter` uses the same DSL as qdrant_rag__search.
+ *
+ * @example
+ * ```typescript
+ * let page = await scroll.call({ filter: { must: [{ key: 'source', match: 'README.md' }] } });
+ * while (page.nextCursor !== null) {
+ *   page = await scroll.call({ cursor: page.nextCursor, filter: ... });
+ * }
+ * ```
+ */
+export const scroll = createTool({
+  name: 'qdrant_rag__scroll',
+  description: 'Page through points of a Qdrant collection with an optional payload filter',
+  input: ScrollInputSchema,
+  output: ScrollOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+    const filter = toQdrantFilter(input.filter);
+
+    let page: Awaited<ReturnType<typeof client.scroll>>;
+    try {
+      page = await abortable(client.scroll(input.collection, {
+        limit: input.limit,
+        ...(input.cursor !== undefined && { offset: input.cursor }),
+        ...(filter && { filter }),
+        ...selectionOptions(input)
+      }), context.signal);
+    } catch (err: any) {
+      context.signal.throwIfAborted();
+
+      const detail = err.data?.status?.error || err.message;
+      logger.error({ detail, collection: input.collection, filter }, 'Qdrant scroll failed');
+      throw new Error(`Qdrant scroll failed: ${detail}`);
+    }
+
+    const nextCursor = page.next_page_offset;
+
+    logger.info({ collection: input.collection, points: page.points.length, hasMore: nextCursor != null }, 'Scrolled Qdrant points');
+
+    return {
+      collection: input.collection,
+      points: page.points.map(record => toPoint(record, input)),
+      nextCursor: typeof nextCursor === 'string' || typeof nextCursor === 'number' ? nextCursor : null
+    };
+  }
+});
@@ -1,67 +1,309 @@
 import { z } from 'zod';
+import type { QdrantClient } from '@qdrant/js-client-rest';
 import { createTool } from '../../utils/tool-factory.js';
 import { logger } from '../../utils/logger.js';
 import { config } from '../../config.js';
-import { QdrantClient } from '@qdrant/js-client-rest';
+import { abortable } from '../../utils/abort.js';
+import { buildSparseVector, type SparseVector } from './sparse.js';
+import { PayloadFilterSchema, toQdrantFilter, type QdrantFilter } from './filter.js';
+import { rerank } from './rerank.js';
+import {
+  assertVectorSize,
+  createQdrantClient,
+  detectVectors,
+  generateEmbedding,
+  splitPayload
+} from './utils.js';
 
 /**
- * Generate embedding vector for query text using configured AI provider
+ * Candidates fetched per retriever in hybrid mode, as a multiple of limit
  */
-async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await fetch(config.qdrant.embeddingEndpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.ai.apiKey}`
-    },
-    body: JSON.stringify({
-      model: config.qdrant.embeddingModel,
-      input: text
-    }),
-    signal: AbortSignal.timeout(config.timeout.default)
-  });
+const HYBRID_PREFETCH_FACTOR = 4;
 
-  if (!response.ok) {
-    throw new Error(`Embedding API error: ${response.status} ${response.statusText}`);
-  }
+/**
+ * Default candidates fetched for reranking, as a multiple of limit
+ */
+const RERANK_OVERFETCH_FACTOR = 4;
 
-  const data = await response.json() as any;
-  return data.data?.[0]?.embedding || [];
-}
+const RerankProviderSchema = z.enum(['endpoint', 'llm']);
+
+const RetrieverSchema = z.enum(['dense', 'sparse', 'both']);
+
+type Retriever = z.infer<typeof RetrieverSchema>;
 
 const SearchInputSchema = z.object({
   query: z.string().min(1).describe('Search query text'),
   collection: z.string().optional()
     .default(config.qdrant.collection)
     .describe('Qdrant collection name'),
+  collections: z.union([z.array(z.string().min(1)).min(1), z.literal('*')]).optional()
+    .describe('Search several collections at once (overrides collection); "*" = every collection'),
   limit: z.number().min(1).max(50).optional().default(5)
     .describe('Maximum number of results'),
   scoreThreshold: z.number().min(0).max(1).optional().default(0.7)
-    .describe('Minimum similarity score (0-1)'),
+    .describe('Minimum similarity score (0-1) for dense results'),
+  mode: z.enum(['dense', 'sparse', 'hybrid']).optional().default('dense')
+    .describe('dense = embeddings, sparse = BM25 keywords, hybrid = both fused with RRF (good for error codes and identifiers)'),
   vectorName: z.string().optional()
-    .describe('Named vector to search on (auto-detected if not provided)')
+    .describe('Named vector to search on (auto-detected if not provided)'),
+  sparseVectorName: z.string().optional()
+    .describe('Sparse vector for sparse/hybrid mode (auto-detected if not provided)'),
+  filter: PayloadFilterSchema.optional(),
+  rerank: RerankProviderSchema.optional()
+    .describe('Rerank over-fetched candidates: endpoint = RERANK_ENDPOINT, llm = configured AI provider as judge'),
+  rerankCandidates: z.number().int().min(1).max(100).optional()
+    .describe('Candidates fetched for reranking (default: 4 x limit)')
 });
 
 const SearchResultSchema = z.object({
   id: z.union([z.string(), z.number()]),
-  score: z.number(),
+  score: z.number().describe('Vector similarity (RRF score in hybrid mode)'),
+  normalizedScore: z.number().optional()
+    .describe('Score min-max normalized within its collection (multi-collection search only)'),
+  rerankScore: z.number().optional().describe('Relevance score from the rerank stage'),
+  collection: z.string().describe('Collection the hit came from'),
   content: z.string(),
-  metadata: z.record(z.unknown()).optional()
+  metadata: z.record(z.unknown()).optional(),
+  retriever: RetrieverSchema.describe('Retriever(s) that matched this result')
 });
 
+type SearchInput = z.infer<typeof SearchInputSchema>;
+type SearchResult = z.infer<typeof SearchResultSchema>;
+
 const SearchOutputSchema = z.object({
   results: z.array(SearchResultSchema),
   query: z.string(),
-  collection: z.string(),
+  collection: z.string().describe('Searched collection (comma-separated for multi-collection search)'),
+  collections: z.array(z.string()),
+  failedCollections: z.array(z.object({
+    collection: z.string(),
+    error: z.string()
+  })).optional().describe('Collections that could not be searched; results come from the rest'),
+  mode: z.enum(['dense', 'sparse', 'hybrid']),
+  rerank: z.object({
+    provider: RerankProviderSchema,
+    candidates: z.number(),
+    applied: z.boolean(),
+    error: z.string().optional().describe('Why results kept their vector order')
+  }).optional(),
   totalFound: z.number()
 });
 
+/**
+ * Run a Qdrant query, turning client errors into readable messages
+ */
+async function runQuery<T>(
+  operation: Promise<T>,
+  signal: AbortSignal,
+  details: Record<string, unknown>
+): Promise<T> {
+  try {
+    return await abortable(operation, signal);
+  } catch (err: any) {
+    signal.throwIfAborted();
+
+    // Try to extract detailed error from Qdrant response
+    const detail = err.data?.status?.error || err.message;
+    logger.error({ detail, ...details }, 'Qdrant query failed');
+    throw new Error(`Qdrant query failed: ${detail}`);
+  }
+}
+
+/**
+ * Query vectors and options shared by every searched collection
+ */
+interface CollectionQuery {
+  input: SearchInput;
+  queryVector?: number[];
+  sparseVector?: SparseVector;
+  filter?: QdrantFilter;
+  fetchLimit: number;
+  signal: AbortSignal;
+}
+
+/**
+ * Resolve which collections to search: `collections` (or "*" for all), else `collection`
+ */
+async function resolveCollections(client: QdrantClient, input: SearchInput, signal: AbortSignal): Promise<string[]> {
+  if (input.collections === '*') {
+    const response = await abortable(client.getCollections(), signal);
+    return response.collections.map(col => col.name).sort();
+  }
+
+  return input.collections ? Array.from(new Set(input.collections)) : [input.collection];
+}
+
+/**
+ * Search one collection. Named vectors are detected per collection,
+ * so collections with different vector names can be searched together.
+ */
+async function searchCollection(
+  client: QdrantClient,
+  collection: string,
+  { input, queryVector, sparseVector, filter, fetchLimit, signal }: CollectionQuery
+): Promise<SearchResult[]> {
+  const usesDense = input.mode !== 'sparse';
+  const usesSparse = input.mode !== 'dense';
+
+  // Auto-detect named vectors if not provided
+  // Dense search always inspects the collection to check the embedding dimension
+  const needsDetection = usesDense || !input.sparseVectorName;
+  const detected = needsDetection ? await detectVectors(client, collection, signal) : {};
+  const vectorName = input.vectorName ?? detected.vectorName;
+  const sparseVectorName = input.sparseVectorName ?? detected.sparseVectorName;
+
+  if (usesSparse && !sparseVectorName) {
+    throw new Error(
+      `Collection "${collection}" has no sparse vector - ${input.mode} search needs one ` +
+      '(create the collection with sparseVectorName and ingest again)'
+    );
+  }
+
+  if (queryVector) {
+    assertVectorSize(collection, detected, vectorName, queryVector.length);
+  }
+
+  const denseQuery = usesDense && {
+    query: queryVector,
+    score_threshold: input.scoreThreshold,
+    ...(vectorName && { using: vectorName }),
+    ...(filter && { filter })
+  };
+  const sparseQuery = usesSparse && {
+    query: sparseVector,
+    using: sparseVectorName,
+    ...(filter && { filter })
+  };
+
+  logger.debug({
+    collection,
+    vectorName: vectorName || '(default)',
+    sparseVectorName,
+    mode: input.mode,
+    filter
+  }, 'Executing Qdrant query');
+
+  const queryDetails = { collection, vectorName, sparseVectorName, mode: input.mode };
+  let points: Array<{ id: string | number; score?: number; payload?: Record<string, unknown> | null }>;
+  let retrieverOf: (id: string | number) => Retriever;
+
+  if (input.mode === 'hybrid') {
+    const prefetchLimit = fetchLimit * HYBRID_PREFETCH_FACTOR;
+    const dense = { ...denseQuery, limit: prefetchLimit };
+    const sparse = { ...sparseQuery, limit: prefetchLimit };
+
+    // Fused query plus both prefetches on their own (IDs only) to attribute results
+    const [fused, denseHits, sparseHits] = await runQuery(client.queryBatch(collection, {
+      searches: [
+        { prefetch: [dense, sparse], query: { fusion: 'rrf' }, limit: fetchLimit, with_payload: true },
+        { ...dense, with_payload: false },
+        { ...sparse, with_payload: false }
+      ]
+    }), signal, queryDetails);
+
+    const denseIds = new Set(denseHits.points.map(point => String(point.id)));
+    const sparseIds = new Set(sparseHits.points.map(point => String(point.id)));
+
+    points = fused.points;
+    retrieverOf = (id) => {
+      const inDense = denseIds.has(String(id));
+      const inSparse = sparseIds.has(String(id));
+      return inDense && inSparse ? 'both' : inSparse ? 'sparse' : 'dense';
+    };
+  } else {
+    const retriever: Retriever = usesDense ? 'dense' : 'sparse';
+    const result = await runQuery(client.query(collection, {
+      ...(usesDense ? denseQuery : sparseQuery),
+      limit: fetchLimit,
+      with_payload: true
+    }), signal, queryDetails);
+
+    points = result.points;
+    retrieverOf = () => retriever;
+  }
+
+  return points.map(point => ({
+    id: point.id,
+    score: point.score ?? 0,
+    collection,
+    ...splitPayload(point.payload),
+    retriever: retrieverOf(point.id)
+  }));
+}
+
+/**
+ * Min-max normalize scores within one collection's results.
+ * Min-max needs at least two distinct scores: a lone hit (or tied hits)
+ * keeps its raw score clamped to [0, 1], so a weak single match is not
+ * promoted above strong hits from other collections.
+ */
+export function normalizeScores<T extends { score: number }>(results: T[]): Array<T & { normalizedScore: number }> {
+  const scores = results.map(result => result.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  return results.map(result => ({
+    ...result,
+    normalizedScore: max > min
+      ? (result.score - min) / (max - min)
+      : Math.min(Math.max(result.score, 0), 1)
+  }));
+}
+
+/**
+ * Identity of a hit across collections: ingested chunk (documentId + chunkIndex)
+ * when available, otherwise its content
+ */
+function dedupeKey(result: SearchResult): string {
+  const documentId = result.metadata?.documentId;
+  const chunkIndex = result.metadata?.chunkIndex;
+
+  return documentId !== undefined && chunkIndex !== undefined
+    ? `chunk:${documentId}#${chunkIndex}`
+    : `content:${result.content}`;
+}
+
+/**
+ * Merge per-collection results: normalize scores, sort, keep the best-scoring
+ * copy of hits that appear in several collections
+ */
+export function mergeCollectionResults(perCollection: SearchResult[][]): SearchResult[] {
+  const merged = perCollection
+    .flatMap(results => normalizeScores(results))
+    .sort((a, b) => b.normalizedScore - a.normalizedScore || b.score - a.score);
+
+  const seen = new Set<string>();
+  return merged.filter(result => {
+    const key = dedupeKey(result);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 /**
  * Semantic search in Qdrant vector database
  *
  * Generates an embedding for the query text and searches for similar
  * vectors in the specified Qdrant collection.
  *
+ * Hybrid mode also builds a local BM25 sparse vector for the query, runs
+ * dense and sparse prefetches and fuses them with Reciprocal Rank Fusion.
+ * Fused scores are RRF scores, not similarities. Each result reports
+ * whether the dense retriever, the sparse one or both found it.
+ *
+ * `filter` restricts results by payload metadata (see filter.ts) and is
+ * applied inside Qdrant to every retriever.
+ *
+ * `collections` searches several collections in parallel. Scores are
+ * min-max normalized per collection (`normalizedScore`), results merged,
+ * duplicates across collections dropped and every hit tagged with its
+ * `collection`. Collections that fail are listed in `failedCollections`.
+ *
+ * `rerank` over-fetches candidates and reorders them by `rerankScore`
+ * (see rerank.ts). If reranking fails, the vector order is kept and the
+ * error is reported in `rerank.error`.
+ *
  * @example
  * ```typescript
  * const result = await search.call({
@@ -69,107 +311,143 @@ const SearchOutputSchema = z.object({
  *   collection: 'knowledge-base',
  *   limit: 5
  * });
+ *
+ * const keywords = await search.call({ query: 'ERR_CONN_RESET', mode: 'hybrid' });
+ *
+ * const everywhere = await search.call({ query: 'release process', collections: '*' });
+ *
+ * const recent = await search.call({
+ *   query: 'deployment checklist',
+ *   filter: {
+ *     must: [
+ *       { key: 'project', match: 'devrk-mcp' },
+ *       { key: 'updatedAt', dateRange: { gte: '2025-06-01' } }
+ *     ]
+ *   }
+ * });
  * ```
  */
 export const search = createTool({
   name: 'qdrant_rag__search',
   input: SearchInputSchema,
   output: SearchOutputSchema,
-  execute: async (input) => {
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const client = createQdrantClient();
+    const collections = await resolveCollections(client, input, context.signal);
+    const federated = input.collections !== undefined;
+
     logger.info({
       query: input.query.substring(0, 100),
-      collection: input.collection,
-      limit: input.limit
-    }, 'Starting Qdrant semantic search');
-
-    // Generate embedding for query
-    const queryVector = await generateEmbedding(input.query);
+      collections,
+      limit: input.limit,
+      mode: input.mode
+    }, 'Starting Qdrant search');
 
-    if (queryVector.length === 0) {
-      throw new Error('Failed to generate embedding for query');
+    if (collections.length === 0) {
+      throw new Error('No collections to search');
     }
 
-    logger.debug({ vectorDim: queryVector.length }, 'Generated query embedding');
+    const fetchLimit = input.rerank
+      ? Math.max(input.rerankCandidates ?? input.limit * RERANK_OVERFETCH_FACTOR, input.limit)
+      : input.limit;
+    const totalSteps = input.rerank ? 3 : 2;
+    const query: CollectionQuery = {
+      input,
+      filter: toQdrantFilter(input.filter),
+      fetchLimit,
+      signal: context.signal
+    };
+
+    // Query vectors are built once and shared by every collection
+    if (input.mode !== 'sparse') {
+      await context.reportProgress(0, totalSteps, 'Generating query embedding');
 
-    // Search in Qdrant
-    const client = new QdrantClient({
-      url: config.qdrant.url,
-      apiKey: config.qdrant.apiKey || undefined,
-      timeout: config.timeout.default
-    });
+      // Generate embedding for query
+      query.queryVector = await generateEmbedding(input.query, context.signal);
 
-    // Auto-detect named vector if not provided
-    let vectorName = input.vectorName;
-    if (!vectorName) {
-      try {
-        const collectionInfo = await client.getCollection(input.collection);
-        const vectorsConfig = collectionInfo.config?.params?.vectors;
-
-        // If vectors config is an object with named keys (not a direct size/distance config),
-        // it means the collection uses named vectors
-        if (vectorsConfig && typeof vectorsConfig === 'object' && !('size' in vectorsConfig)) {
-          const vectorNames = Object.keys(vectorsConfig);
-          if (vectorNames.length > 0) {
-            vectorName = vectorNames[0];
-            logger.info({ vectorName, allVectors: vectorNames }, 'Auto-detected named vector');
-          }
-        }
-      } catch (err: any) {
-        logger.warn({ error: err.message, collection: input.collection }, 'Failed to detect vector config, proceeding without named vector');
+      if (query.queryVector.length === 0) {
+        throw new Error('Failed to generate embedding for query');
       }
+
+      logger.debug({ vectorDim: query.queryVector.length }, 'Generated query embedding');
     }
 
-    // Build query parameters
-    const queryParams: any = {
-      query: queryVector,
-      limit: input.limit,
-      score_threshold: input.scoreThreshold,
-      with_payload: true
-    };
+    if (input.mode !== 'dense') {
+      query.sparseVector = buildSparseVector(input.query, 'query');
 
-    if (vectorName) {
-      queryParams.using = vectorName;
+      if (query.sparseVector.indices.length === 0 && input.mode === 'sparse') {
+        throw new Error('Query contains no searchable terms for sparse search');
+      }
     }
 
-    logger.debug({ vectorName: vectorName || '(default)', queryDim: queryVector.length }, 'Executing Qdrant query');
+    await context.reportProgress(1, totalSteps, `Querying ${collections.length} collection(s)`);
+
+    const settled = await Promise.allSettled(
+      collections.map(collection => searchCollection(client, collection, query))
+    );
+    context.signal.throwIfAborted();
 
-    let searchResult;
-    try {
-      searchResult = await client.query(input.collection, queryParams);
-    } catch (err: any) {
-      // Try to extract detailed error from Qdrant response
-      const detail = err.data?.status?.error || err.message;
-      logger.error({ detail, collection: input.collection, vectorName }, 'Qdrant query failed');
-      throw new Error(`Qdrant query failed: ${detail}`);
+    const failedCollections = settled.flatMap((outcome, index) =>
+      outcome.status === 'rejected'
+        ? [{ collection: collections[index], error: outcome.reason?.message ?? String(outcome.reason) }]
+        : []
+    );
+
+    if (failedCollections.length === collections.length) {
+      // Nothing succeeded - surface the original error
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    for (const failure of failedCollections) {
+      logger.warn(failure, 'Collection search failed, continuing with the rest');
     }
 
-    const results = searchResult.points.map(point => {
-      const payload = point.payload || {};
-      const content = (payload.content as string) || (payload.text as string) || JSON.stringify(payload);
+    const perCollection = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+    let results: SearchResult[] = federated
+      ? mergeCollectionResults(perCollection).slice(0, fetchLimit)
+      : perCollection[0];
+
+    let rerankInfo: z.infer<typeof SearchOutputSchema>['rerank'];
+
+    if (input.rerank) {
+      await context.reportProgress(2, totalSteps, `Reranking ${results.length} candidates`);
+      rerankInfo = { provider: input.rerank, candidates: results.length, applied: false };
+
+      try {
+        const scores = await rerank(input.query, results.map(result => result.content), input.rerank, context.signal);
+        results = results
+          .map((result, index) => ({ ...result, rerankScore: scores[index] }))
+          .sort((a, b) => b.rerankScore - a.rerankScore);
+        rerankInfo.applied = true;
+      } catch (err: any) {
+        context.signal.throwIfAborted();
+
+        logger.warn({ error: err.message, provider: input.rerank }, 'Rerank failed, keeping vector order');
+        rerankInfo.error = err.message;
+      }
+    }
 
-      // Separate content from other metadata
-      const metadata = { ...payload };
-      delete metadata.content;
-      delete metadata.text;
+    results = results.slice(0, input.limit);
 
-      return {
-        id: point.id,
-        score: point.score ?? 0,
-        content,
-        metadata: Object.keys(metadata).length > 0 ? metadata : undefined
-      };
-    });
+    await context.reportProgress(totalSteps, totalSteps, `Found ${results.length} results`);
 
     logger.info({
       totalFound: results.length,
-      collection: input.collection,
-      vectorName: vectorName || '(default)'
+      collections,
+      failed: failedCollections.length,
+      mode: input.mode,
+      reranked: rerankInfo?.applied
     }, 'Qdrant search completed');
 
     return {
       results,
       query: input.query,
-      collection: input.collection,
+      collection: collections.join(','),
+      collections,
+      ...(failedCollections.length > 0 && { failedCollections }),
+      mode: input.mode,
+      ...(rerankInfo && { rerank: rerankInfo }),
       totalFound: results.length
     };
   }
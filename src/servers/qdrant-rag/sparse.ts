@@ -0,0 +1,105 @@
+/**
+ * Sparse (BM25-style) Vectors
+ *
+ * Builds sparse vectors locally - no external model or service.
+ * Tokens are hashed into the index space, documents get BM25 term-frequency
+ * weights and queries get a weight of 1 per term. IDF is applied by Qdrant
+ * (sparse vector config with `modifier: idf`, see createCollection).
+ */
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 length normalization */
+const B = 0.75;
+/** Assumed average document length in tokens (no corpus statistics available locally) */
+const AVG_DOC_LENGTH = 256;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'with'
+]);
+
+/**
+ * Split text into lowercase terms.
+ * Compound identifiers (`ERR_CONN_RESET`, `auth.login`, `E-1234`) are kept
+ * whole and also contribute their parts, so both exact and partial matches score.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+(?:[._:\-/][\p{L}\p{N}]+)*/gu)) {
+    const term = match[0];
+    const parts = term.split(/[._:\-/]/);
+
+    if (parts.length > 1) {
+      tokens.push(term);
+    }
+
+    for (const part of parts) {
+      if (!STOPWORDS.has(part)) {
+        tokens.push(part);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Stable 32-bit index for a term (FNV-1a)
+ */
+export function termIndex(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Build a sparse vector for a document (BM25 weights) or a query (1 per term)
+ */
+export function buildSparseVector(text: string, kind: 'document' | 'query'): SparseVector {
+  const tokens = tokenize(text);
+  const frequencies = new Map<number, number>();
+
+  for (const token of tokens) {
+    const index = termIndex(token);
+    frequencies.set(index, (frequencies.get(index) ?? 0) + 1);
+  }
+
+  const indices = Array.from(frequencies.keys()).sort((a, b) => a - b);
+  const lengthNorm = K1 * (1 - B + B * tokens.length / AVG_DOC_LENGTH);
+
+  return {
+    indices,
+    values: indices.map(index => {
+      if (kind === 'query') return 1;
+      const tf = frequencies.get(index)!;
+      return (tf * (K1 + 1)) / (tf + lengthNorm);
+    })
+  };
+}
+
+/**
+ * Share of the query's distinct terms that occur in a text (0-1).
+ * A bounded keyword relevance for sparse hits, whose BM25 scores have no fixed scale.
+ */
+export function termCoverage(query: string, text: string): number {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) return 0;
+
+  const textTerms = new Set(tokenize(text));
+  let found = 0;
+  for (const term of queryTerms) {
+    if (textTerms.has(term)) found++;
+  }
+
+  return found / queryTerms.size;
+}
@@ -0,0 +1,166 @@
+/**
+ * Qdrant RAG Server Utilities
+ *
+ * Shared by search and ingest so both sides agree on the embedding
+ * endpoint, the vector layout and the payload layout.
+ */
+
+import { createHash } from 'node:crypto';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { config } from '../../config.js';
+import { logger } from '../../utils/logger.js';
+import { abortable } from '../../utils/abort.js';
+import { embedTexts } from './embeddings.js';
+
+/**
+ * Create a Qdrant client from configuration
+ */
+export function createQdrantClient(): QdrantClient {
+  return new QdrantClient({
+    url: config.qdrant.url,
+    apiKey: config.qdrant.apiKey || undefined,
+    timeout: config.timeout.default
+  });
+}
+
+/**
+ * Generate embedding vectors for a batch of texts using the configured
+ * embedding provider (cached, batched). Vectors are returned in input order.
+ */
+export async function generateEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  return embedTexts(texts, { signal });
+}
+
+/**
+ * Generate embedding vector for a single text
+ */
+export async function generateEmbedding(text: string, signal?: AbortSignal): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text], signal);
+  return embedding || [];
+}
+
+/**
+ * Vector layout of a collection
+ */
+export interface CollectionVectors {
+  /** First named dense vector, undefined for a single unnamed vector */
+  vectorName?: string;
+  /** First sparse vector, undefined when the collection has none */
+  sparseVectorName?: string;
+  /** Dense vector sizes by name ('' for the unnamed vector) */
+  vectorSizes?: Record<string, number>;
+}
+
+/**
+ * Detect the named dense vector and sparse vector of a collection.
+ * Returns an empty layout when the collection cannot be inspected.
+ */
+export async function detectVectors(
+  client: QdrantClient,
+  collection: string,
+  signal: AbortSignal
+): Promise<CollectionVectors> {
+  const detected: CollectionVectors = {};
+
+  try {
+    const collectionInfo = await abortable(client.getCollection(collection), signal);
+    const vectorsConfig = collectionInfo.config?.params?.vectors;
+    const sparseConfig = collectionInfo.config?.params?.sparse_vectors;
+
+    // If vectors config is an object with named keys (not a direct size/distance config),
+    // it means the collection uses named vectors
+    if (vectorsConfig && typeof vectorsConfig === 'object' && !('size' in vectorsConfig)) {
+      detected.vectorName = Object.keys(vectorsConfig)[0];
+      detected.vectorSizes = Object.fromEntries(
+        Object.entries(vectorsConfig).map(([name, params]) => [name, (params as { size: number }).size])
+      );
+    } else if (vectorsConfig && 'size' in vectorsConfig) {
+      detected.vectorSizes = { '': vectorsConfig.size as number };
+    }
+
+    if (sparseConfig) {
+      detected.sparseVectorName = Object.keys(sparseConfig)[0];
+    }
+
+    if (detected.vectorName || detected.sparseVectorName) {
+      logger.info({
+        ...detected,
+        allVectors: Object.keys(vectorsConfig && !('size' in vectorsConfig) ? vectorsConfig : {}),
+        allSparseVectors: Object.keys(sparseConfig ?? {})
+      }, 'Auto-detected named vectors');
+    }
+  } catch (err: any) {
+    signal.throwIfAborted();
+    logger.warn({ error: err.message, collection }, 'Failed to detect vector config, proceeding without named vector');
+  }
+
+  return detected;
+}
+
+/**
+ * Fail early when the embedding model produces vectors of a different size
+ * than the collection stores (wrong model or EMBEDDING_DIMENSIONS)
+ */
+export function assertVectorSize(
+  collection: string,
+  vectors: CollectionVectors,
+  vectorName: string | undefined,
+  actualSize: number
+): void {
+  const expectedSize = vectors.vectorSizes?.[vectorName ?? ''];
+
+  if (expectedSize !== undefined && expectedSize !== actualSize) {
+    throw new Error(
+      `Embedding dimension ${actualSize} (${config.qdrant.embeddingProvider}/${config.qdrant.embeddingModel}) ` +
+      `does not match vector size ${expectedSize} of collection "${collection}"` +
+      (vectorName ? ` (vector "${vectorName}")` : '')
+    );
+  }
+}
+
+/**
+ * Build a point payload: chunk text under `content`, metadata as top-level keys.
+ * This is the layout splitPayload() (and therefore search) reads back.
+ */
+export function buildPayload(content: string, metadata: Record<string, unknown> = {}): Record<string, unknown> {
+  return { ...metadata, content };
+}
+
+/**
+ * Split a point payload into content and remaining metadata.
+ * Falls back to `text` and finally to the serialized payload for
+ * collections filled by other tools.
+ */
+export function splitPayload(payload: Record<string, unknown> | null | undefined): {
+  content: string;
+  metadata?: Record<string, unknown>;
+} {
+  const source = payload || {};
+  const content = (source.content as string) || (source.text as string) || JSON.stringify(source);
+
+  // Separate content from other metadata
+  const metadata = { ...source };
+  delete metadata.content;
+  delete metadata.text;
+
+  return {
+    content,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+  };
+}
+
+/**
+ * Deterministic point ID (UUID format) for a chunk of a document.
+ * Re-ingesting the same document overwrites its chunks instead of duplicating them.
+ */
+export function chunkPointId(documentId: string, chunkIndex: number): string {
+  const hex = createHash('sha256').update(`${documentId}:${chunkIndex}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Content-derived document ID for documents ingested without an explicit id
+ */
+export function contentDocumentId(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,195 @@
+/**
+ * YouTube Channel Selection
+ *
+ * Subscriptions listing plus allow/deny lists and named channel groups,
+ * read from a JSON file (YOUTUBE_CHANNEL_GROUPS_FILE):
+ *
+ * ```json
+ * {
+ *   "exclude": ["UCxxxxxxxxxxxxxxxxxxxxxx", "*shorts*"],
+ *   "groups": {
+ *     "tech": { "include": ["Fireship", "/rust|golang/i"] },
+ *     "music": { "include": ["UCyyyyyyyyyyyyyyyyyyyyyy"], "exclude": ["*live*"] }
+ *   }
+ * }
+ * ```
+ *
+ * Patterns are channel IDs (UC...), `/regex/flags` or case-insensitive
+ * globs (`*` = anything) matched against the whole channel title.
+ * Top-level include/exclude apply to every run; a group narrows further.
+ * An empty or missing include list means "all channels".
+ */
+
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { config } from '../../config.js';
+import { logger } from '../../utils/logger.js';
+import type { getYouTubeClient } from '../../utils/google-auth.js';
+import { callYouTube, QuotaExhaustedError, type QuotaTracker } from './quota.js';
+
+export interface SubscribedChannel {
+  id: string;
+  title: string;
+  description: string;
+  thumbnail: string;
+}
+
+const ChannelFilterSchema = z.object({
+  include: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).optional()
+});
+
+const ChannelGroupsFileSchema = ChannelFilterSchema.extend({
+  groups: z.record(z.string(), ChannelFilterSchema).optional()
+});
+
+export type ChannelFilter = z.infer<typeof ChannelFilterSchema>;
+export type ChannelGroups = z.infer<typeof ChannelGroupsFileSchema>;
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+type ChannelMatcher = (channel: Pick<SubscribedChannel, 'id' | 'title'>) => boolean;
+
+/**
+ * Compile an include/exclude pattern
+ *
+ * @throws Error on an invalid /regex/
+ */
+export function compilePattern(pattern: string): ChannelMatcher {
+  if (CHANNEL_ID_PATTERN.test(pattern)) {
+    return channel => channel.id === pattern;
+  }
+
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    const compiled = new RegExp(regex[1], regex[2]);
+    return channel => compiled.test(channel.title);
+  }
+
+  const glob = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+  return channel => glob.test(channel.title.trim());
+}
+
+function passesFilter(filter: ChannelFilter, channel: Pick<SubscribedChannel, 'id' | 'title'>): boolean {
+  const matches = (pattern: string) => compilePattern(pattern)(channel);
+
+  return (!filter.include?.length || filter.include.some(matches)) &&
+    !(filter.exclude ?? []).some(matches);
+}
+
+/**
+ * Load channel groups; a missing file means no filters and no groups
+ *
+ * @throws Error if the file is not valid JSON, has the wrong shape or an invalid pattern
+ */
+export async function loadChannelGroups(path: string = config.youtube.channelGroupsFile): Promise<ChannelGroups> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw new Error(`Cannot read channel groups file ${path}: ${error.message}`);
+  }
+
+  let groups: ChannelGroups;
+  try {
+    groups = ChannelGroupsFileSchema.parse(JSON.parse(raw));
+  } catch (error: any) {
+    throw new Error(`Invalid channel groups file ${path}: ${error.message}`);
+  }
+
+  const filters = [groups, ...Object.values(groups.groups ?? {})];
+  for (const pattern of filters.flatMap(filter => [...filter.include ?? [], ...filter.exclude ?? []])) {
+    try {
+      compilePattern(pattern);
+    } catch (error: any) {
+      throw new Error(`Invalid channel pattern "${pattern}" in ${path}: ${error.message}`);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Check that a group exists before any quota is spent
+ *
+ * @throws Error listing the available groups
+ */
+export function assertGroupExists(groups: ChannelGroups, group: string): void {
+  if (!groups.groups?.[group]) {
+    const available = Object.keys(groups.groups ?? {});
+    throw new Error(`Unknown channel group "${group}". Available: ${available.length > 0 ? available.join(', ') : 'none'}`);
+  }
+}
+
+/**
+ * Channels passing the top-level include/exclude lists and, when given, the group's
+ */
+export function selectChannels<T extends Pick<SubscribedChannel, 'id' | 'title'>>(
+  channels: T[],
+  groups: ChannelGroups,
+  group?: string
+): T[] {
+  if (group) assertGroupExists(groups, group);
+  const filters = group ? [groups, groups.groups![group]] : [groups];
+
+  return channels.filter(channel => filters.every(filter => passesFilter(filter, channel)));
+}
+
+/**
+ * Names of the groups a channel belongs to
+ */
+export function channelGroupsOf(channel: Pick<SubscribedChannel, 'id' | 'title'>, groups: ChannelGroups): string[] {
+  return Object.entries(groups.groups ?? {})
+    .filter(([, filter]) => passesFilter(filter, channel))
+    .map(([name]) => name);
+}
+
+/**
+ * Whether the top-level include/exclude lists let a channel through
+ */
+export function isChannelAllowed(channel: Pick<SubscribedChannel, 'id' | 'title'>, groups: ChannelGroups): boolean {
+  return passesFilter(groups, channel);
+}
+
+/**
+ * Fetch all subscriptions with pagination, in API order.
+ * Stops paging (keeping pages fetched so far) when the quota runs low.
+ */
+export async function fetchAllSubscriptions(
+  youtube: ReturnType<typeof getYouTubeClient>,
+  quota: QuotaTracker,
+  signal: AbortSignal
+): Promise<SubscribedChannel[]> {
+  const subscriptions: SubscribedChannel[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    let response;
+    try {
+      response = await callYouTube(quota, 'subscriptions.list', signal, () => youtube.subscriptions.list({
+        part: ['snippet'],
+        mine: true,
+        maxResults: 50,
+        pageToken
+      }, { signal }));
+    } catch (error) {
+      if (!(error instanceof QuotaExhaustedError)) throw error;
+      logger.warn({ fetched: subscriptions.length }, error.message);
+      break;
+    }
+
+    for (const item of response.data.items || []) {
+      subscriptions.push({
+        id: item.snippet?.resourceId?.channelId || '',
+        title: item.snippet?.title || '',
+        description: item.snippet?.description || '',
+        thumbnail: item.snippet?.thumbnails?.default?.url || ''
+      });
+    }
+
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+
+  return subscriptions;
+}
@@ -0,0 +1,118 @@
+/**
+ * YouTube Channel Feeds
+ *
+ * Reads a channel's public Atom feed (YOUTUBE_FEED_BASE_URL?channel_id=UC...)
+ * to list its latest uploads without spending Data API quota. Feeds carry
+ * the 15 most recent uploads with title, description, publish date and
+ * thumbnail, which is all getLatestVideos needs.
+ */
+
+import { config } from '../../config.js';
+import { withTimeout } from '../../utils/abort.js';
+import { limited } from '../../utils/rate-limit.js';
+
+/**
+ * Entries per channel feed (fixed by YouTube)
+ */
+export const FEED_MAX_ENTRIES = 15;
+
+export interface FeedVideo {
+  videoId: string;
+  title: string;
+  description: string;
+  publishedAt: string;
+  channelId: string;
+  channelTitle: string;
+  thumbnail: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'"
+};
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity])
+    .trim();
+}
+
+/**
+ * Text of the first <tag> element in xml, or ''
+ */
+function element(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : '';
+}
+
+function attribute(xml: string, tag: string, name: string): string {
+  const match = xml.match(new RegExp(`<${tag}\\s[^>]*?${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : '';
+}
+
+/**
+ * Parse a YouTube channel Atom feed into videos, newest first
+ *
+ * @throws Error if the document is not an Atom feed
+ */
+export function parseChannelFeed(xml: string): FeedVideo[] {
+  if (!/<feed[\s>]/.test(xml)) {
+    throw new Error('Not an Atom feed');
+  }
+
+  const header = xml.split('<entry>')[0];
+  const feedChannelId = element(header, 'yt:channelId');
+  const feedChannelTitle = element(element(header, 'author'), 'name') || element(header, 'title');
+
+  const videos: FeedVideo[] = [];
+  for (const [, entry] of xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)) {
+    const videoId = element(entry, 'yt:videoId');
+    if (!videoId) continue;
+
+    videos.push({
+      videoId,
+      title: element(entry, 'title'),
+      description: element(entry, 'media:description'),
+      publishedAt: element(entry, 'published'),
+      channelId: element(entry, 'yt:channelId') || feedChannelId,
+      channelTitle: element(element(entry, 'author'), 'name') || feedChannelTitle,
+      thumbnail: attribute(entry, 'media:thumbnail', 'url')
+    });
+  }
+
+  return videos.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+}
+
+/**
+ * Fetch and parse a channel's feed through the shared feeds limiter
+ *
+ * @param baseUrl - Feed endpoint (default YOUTUBE_FEED_BASE_URL)
+ * @throws Error on HTTP errors or an unparseable response
+ *
+ * @example
+ * ```typescript
+ * const videos = await fetchChannelFeed('UCxxxxxxxxxxxxxx', signal);
+ * ```
+ */
+export async function fetchChannelFeed(
+  channelId: string,
+  signal?: AbortSignal,
+  baseUrl: string = config.youtube.feedBaseUrl
+): Promise<FeedVideo[]> {
+  const url = new URL(baseUrl);
+  url.searchParams.set('channel_id', channelId);
+
+  const response = await limited('feeds', () => fetch(url, { signal: withTimeout(signal) }), signal);
+
+  if (!response.ok) {
+    throw new Error(`YouTube feed error: ${response.status} ${response.statusText}`);
+  }
+
+  return parseChannelFeed(await response.text());
+}
@@ -4,7 +4,40 @@ import { logger } from '../../utils/logger.js';
 import { config } from '../../config.js';
 import { getYouTubeClient } from '../../utils/google-auth.js';
 import { channelIdToUploadsPlaylistId } from './utils.js';
+import { fetchTranscript, watchUrl } from './transcripts.js';
+import { DigestStateStore } from './state.js';
+import { callYouTube, QuotaExhaustedError, QuotaTracker } from './quota.js';
+import { assertGroupExists, fetchAllSubscriptions, loadChannelGroups, selectChannels } from './channels.js';
+import { fetchChannelFeed, FEED_MAX_ENTRIES, type FeedVideo } from './feeds.js';
 import { summarize } from '../../utils/ai-summarizer.js';
+import { emptyCacheStats, type CacheStats } from '../../utils/persistent-cache.js';
+import { mapConcurrent } from '../../utils/rate-limit.js';
+
+/**
+ * sinceLastRun looks this far back before a channel's last delivered run,
+ * catching videos the API listed late; delivered IDs filter out repeats
+ */
+const SINCE_LAST_RUN_OVERLAP_HOURS = 6;
+
+/**
+ * Share of TIMEOUT_DIGEST after which no new channels are started; the rest
+ * is left for channels in flight and the email digest
+ */
+const DEADLINE_FRACTION = 0.8;
+
+/**
+ * Cutoff for one channel: its last delivered run (minus the overlap) or the
+ * hoursBack cutoff - the later of the two when both are set
+ */
+export function channelCutoffDate(lastRunAt: Date | null, hoursBackCutoff: Date | null): Date | null {
+  if (!lastRunAt) return hoursBackCutoff;
+
+  const sinceLastRun = lastRunAt.getTime() - SINCE_LAST_RUN_OVERLAP_HOURS * 60 * 60 * 1000;
+  return new Date(Math.max(sinceLastRun, hoursBackCutoff?.getTime() ?? -Infinity));
+}
+
+const FetchStrategySchema = z.enum(['feed', 'api']);
+type FetchStrategy = z.infer<typeof FetchStrategySchema>;
 
 /**
  * Input schema for getLatestVideos tool
@@ -15,11 +48,18 @@ const GetLatestVideosInputSchema = z.object({
     .describe('Number of latest videos to fetch per channel'),
   maxChannels: z.number().min(1).optional()
     .default(config.youtube.defaultMaxChannels)
-    .describe('Maximum number of channels to process'),
+    .describe('Maximum number of channels to process (after include/exclude and group filtering)'),
+  group: z.string().min(1).optional()
+    .describe('Only channels of this named group (see youtube__list_subscriptions)'),
   hoursBack: z.number().min(1).optional()
     .describe('Only include videos published within last N hours'),
   sendEmail: z.boolean().optional().default(false)
-    .describe('Send email digest to configured RECIPIENT_EMAIL')
+    .describe('Send email digest to configured RECIPIENT_EMAIL'),
+  sinceLastRun: z.boolean().optional().default(false)
+    .describe('Only videos not delivered yet; videos are marked delivered once the email digest is sent'),
+  strategy: FetchStrategySchema.optional()
+    .default(config.youtube.fetchStrategy === 'feed' ? 'feed' : 'api')
+    .describe('How to list channel uploads: "api" (Data API, default) or "feed" (public Atom feeds, no quota, Data API fallback)')
 });
 
 /**
@@ -49,9 +89,23 @@ const ChannelVideosSchema = z.object({
     thumbnail: z.string()
   }),
   videos: z.array(VideoSchema),
-  error: z.string().optional().describe('Error message if fetching failed for this channel')
+  error: z.string().optional().describe('Error message if fetching failed for this channel'),
+  source: FetchStrategySchema.optional().describe('Where the uploads list came from')
+});
+
+const CacheStatsSchema = z.object({
+  hits: z.number(),
+  misses: z.number()
 });
 
+/**
+ * This call's persistent cache hits/misses, counted as the channels run
+ */
+interface DigestCacheStats {
+  transcripts: CacheStats;
+  summaries: CacheStats;
+}
+
 /**
  * Output schema for getLatestVideos tool
  */
@@ -60,92 +114,131 @@ const GetLatestVideosOutputSchema = z.object({
   totalVideos: z.number().describe('Total number of videos across all channels'),
   totalChannels: z.number().describe('Number of channels with at least one video'),
   summary: z.string().describe('Human-readable summary'),
-  emailSent: z.boolean().describe('Whether email notification was sent')
+  emailSent: z.boolean().describe('Whether email notification was sent'),
+  cache: z.object({
+    transcripts: CacheStatsSchema,
+    summaries: CacheStatsSchema
+  }).describe('Persistent cache hits/misses during this call'),
+  alreadyDelivered: z.number().optional()
+    .describe('Videos skipped because an earlier sinceLastRun digest delivered them'),
+  quota: z.object({
+    unitsUsed: z.number().describe('YouTube Data API units used by this call'),
+    dailyUnitsUsed: z.number(),
+    dailyLimit: z.number(),
+    exhausted: z.boolean().describe('Stopped early because the daily quota is nearly used up'),
+    channelsNotProcessed: z.number().describe('Channels skipped after the quota ran low')
+  }),
+  deadline: z.object({
+    reached: z.boolean().describe('Stopped starting channels close to TIMEOUT_DIGEST; results are partial'),
+    channelsNotProcessed: z.number().describe('Channels skipped because the deadline was reached')
+  })
 });
 
 /**
- * Fetch all subscriptions with pagination
+ * Latest uploads of a channel from the Data API (1 quota unit)
  */
-async function fetchAllSubscriptions(youtube: ReturnType<typeof getYouTubeClient>) {
-  const subscriptions: any[] = [];
-  let pageToken: string | undefined;
-
-  do {
-    const response = await youtube.subscriptions.list({
-      part: ['snippet'],
-      mine: true,
-      maxResults: 50,
-      pageToken
-    });
-
-    if (response.data.items) {
-      subscriptions.push(...response.data.items);
-    }
-
-    pageToken = response.data.nextPageToken ?? undefined;
-  } while (pageToken);
-
-  return subscriptions;
+async function fetchUploadsFromApi(
+  youtube: ReturnType<typeof getYouTubeClient>,
+  quota: QuotaTracker,
+  channelId: string,
+  channelTitle: string,
+  videosPerChannel: number,
+  signal: AbortSignal
+): Promise<FeedVideo[]> {
+  const playlistResponse = await callYouTube(quota, 'playlistItems.list', signal, () => youtube.playlistItems.list({
+    part: ['snippet', 'contentDetails'],
+    playlistId: channelIdToUploadsPlaylistId(channelId),
+    maxResults: videosPerChannel
+  }, { signal }));
+
+  return (playlistResponse.data.items || []).map(item => ({
+    videoId: item.contentDetails?.videoId || '',
+    title: item.snippet?.title || '',
+    description: item.snippet?.description || '',
+    publishedAt: item.contentDetails?.videoPublishedAt || item.snippet?.publishedAt || '',
+    channelId: item.snippet?.channelId || channelId,
+    channelTitle: item.snippet?.channelTitle || channelTitle,
+    thumbnail: item.snippet?.thumbnails?.high?.url || item.snippet?.thumbnails?.default?.url || ''
+  }));
 }
 
 /**
- * Fetch transcript for a video
+ * Latest uploads of a channel using the requested strategy.
+ * The feed strategy falls back to the Data API when the feed fails or
+ * cannot hold videosPerChannel entries.
  */
-async function fetchTranscript(videoId: string): Promise<string | null> {
-  try {
-    const { YoutubeTranscript } = await import('youtube-transcript');
-    const entries = await YoutubeTranscript.fetchTranscript(videoId);
-    if (entries && entries.length > 0) {
-      return entries.map((e: any) => e.text).join(' ');
+async function fetchUploads(
+  youtube: ReturnType<typeof getYouTubeClient>,
+  quota: QuotaTracker,
+  strategy: FetchStrategy,
+  channelId: string,
+  channelTitle: string,
+  videosPerChannel: number,
+  signal: AbortSignal
+): Promise<{ uploads: FeedVideo[]; source: FetchStrategy }> {
+  if (strategy === 'feed' && videosPerChannel <= FEED_MAX_ENTRIES) {
+    try {
+      const uploads = await fetchChannelFeed(channelId, signal);
+      return { uploads: uploads.slice(0, videosPerChannel), source: 'feed' };
+    } catch (error: any) {
+      signal.throwIfAborted();
+      logger.warn({ channelTitle, channelId, error: error.message }, 'Channel feed failed, falling back to Data API');
     }
-    return null;
-  } catch {
-    return null;
   }
+
+  const uploads = await fetchUploadsFromApi(youtube, quota, channelId, channelTitle, videosPerChannel, signal);
+  return { uploads, source: 'api' };
 }
 
 /**
- * Process a single channel: fetch videos, transcripts, and AI summaries
+ * Process a single channel: fetch videos, transcripts, and AI summaries.
+ * Videos are processed concurrently; the shared transcript and LLM
+ * limiters keep the overall request rate in check.
  */
 async function processChannel(
   youtube: ReturnType<typeof getYouTubeClient>,
+  quota: QuotaTracker,
+  strategy: FetchStrategy,
   channelId: string,
   channelTitle: string,
   channelThumbnail: string,
   videosPerChannel: number,
-  cutoffDate: Date | null
+  cutoffDate: Date | null,
+  isDelivered: (videoId: string) => boolean,
+  cache: DigestCacheStats,
+  signal: AbortSignal
 ): Promise<z.infer<typeof ChannelVideosSchema>> {
-  const uploadsPlaylistId = channelIdToUploadsPlaylistId(channelId);
+  const { uploads, source } = await fetchUploads(
+    youtube, quota, strategy, channelId, channelTitle, videosPerChannel, signal
+  );
 
-  const playlistResponse = await youtube.playlistItems.list({
-    part: ['snippet', 'contentDetails'],
-    playlistId: uploadsPlaylistId,
-    maxResults: videosPerChannel
-  });
-
-  const items = playlistResponse.data.items || [];
-  const videos: z.infer<typeof VideoSchema>[] = [];
-
-  for (const item of items) {
-    const publishedAt = item.contentDetails?.videoPublishedAt || item.snippet?.publishedAt || '';
-
-    if (cutoffDate && new Date(publishedAt) < cutoffDate) {
-      continue;
-    }
+  const items = uploads.filter(upload =>
+    upload.videoId &&
+    !(cutoffDate && new Date(upload.publishedAt) < cutoffDate) &&
+    !isDelivered(upload.videoId));
 
-    const videoId = item.contentDetails?.videoId || '';
-    const description = item.snippet?.description || '';
+  const videos = await Promise.all(items.map(async (upload): Promise<z.infer<typeof VideoSchema>> => {
+    const { videoId, description } = upload;
 
     // Try transcript first, fallback to description
     let summaryText = '';
     let summarySource: 'transcript' | 'description' | 'fallback' = 'fallback';
 
-    const transcript = await fetchTranscript(videoId);
+    const transcript = await fetchTranscript(videoId, { signal, cacheStats: cache.transcripts });
+
     if (transcript) {
-      summaryText = await summarize(transcript);
+      summaryText = await summarize(transcript, undefined, {
+        signal,
+        cacheId: `${videoId}:transcript`,
+        cacheStats: cache.summaries
+      });
       summarySource = 'transcript';
     } else if (description.length > 20) {
-      summaryText = await summarize(description);
+      summaryText = await summarize(description, undefined, {
+        signal,
+        cacheId: `${videoId}:description`,
+        cacheStats: cache.summaries
+      });
       summarySource = 'description';
     }
 
@@ -154,22 +247,13 @@ async function processChannel(
       summarySource = 'fallback';
     }
 
-    videos.push({
-      videoId,
-      title: item.snippet?.title || '',
-      description,
-      publishedAt,
-      channelId: item.snippet?.channelId || channelId,
-      channelTitle: item.snippet?.channelTitle || channelTitle,
-      thumbnail:
-        item.snippet?.thumbnails?.high?.url ||
-        item.snippet?.thumbnails?.default?.url ||
-        '',
-      url: `https://www.youtube.com/watch?v=${videoId}`,
+    return {
+      ...upload,
+      url: watchUrl(videoId),
       summary: summaryText,
       summarySource
-    });
-  }
+    };
+  }));
 
   return {
     channel: {
@@ -177,7 +261,8 @@ async function processChannel(
       title: channelTitle,
       thumbnail: channelThumbnail
     },
-    videos
+    videos,
+    source
   };
 }
 
@@ -189,10 +274,40 @@ async function processChannel(
  *
  * Flow:
  * 1. OAuth2 -> youtube.subscriptions.list(mine=true, paginated)
- * 2. For each channel: fetch uploads, filter by date
+ * 2. For each channel: fetch uploads (Atom feed or Data API), filter by date
  * 3. For each video: fetch transcript -> AI summarize (2 sentences)
  * 4. Optional: send email digest via Gmail API
  *
+ * `sinceLastRun` makes digests incremental: each channel is read from its
+ * last delivered run (state in YOUTUBE_STATE_FILE) and videos delivered
+ * before are skipped. Videos count as delivered only after sendGmail
+ * succeeds, so a failed or email-less run returns them again next time.
+ * With hoursBack as well, the later of the two cutoffs wins. Only one
+ * sinceLastRun run at a time: a second one fails fast on the state lock.
+ *
+ * Channels are processed concurrently (YOUTUBE_CHANNEL_CONCURRENCY) and
+ * every YouTube, transcript and LLM request goes through the shared rate
+ * limiters (see utils/rate-limit.ts). Data API units are tracked per run;
+ * when the daily quota is nearly used up (YOUTUBE_QUOTA_RESERVE left) the
+ * remaining channels are skipped and partial results returned with
+ * `quota.exhausted: true`.
+ *
+ * The tool runs under its own TIMEOUT_DIGEST. After 80% of it no new
+ * channels are started, so channels in flight and the email digest can
+ * still finish and the processed channels are returned (`deadline.reached`).
+ *
+ * Uploads are listed through the Data API by default. With `strategy: 'feed'`
+ * (opt-in, or YOUTUBE_FETCH_STRATEGY=feed) they are read from the channel's
+ * public Atom feed, which costs no quota; only the subscription pages are
+ * charged. A channel whose feed fails, or that asks for more than the feed's
+ * 15 entries, falls back to the Data API.
+ *
+ * Channels are chosen from the subscriptions by the include/exclude lists
+ * and named groups in YOUTUBE_CHANNEL_GROUPS_FILE (see channels.ts);
+ * `group` limits a run to one group. maxChannels applies after filtering.
+ *
+ * Reports progress after each channel (current = channels processed).
+ *
  * @example
  * ```typescript
  * const result = await getLatestVideos.call({
@@ -206,94 +321,187 @@ export const getLatestVideos = createTool({
   name: 'youtube__get_latest_videos',
   input: GetLatestVideosInputSchema,
   output: GetLatestVideosOutputSchema,
-  execute: async (input) => {
+  timeout: config.timeout.digest,
+  execute: async (input, context) => {
+    const deadline = Date.now() + config.timeout.digest * DEADLINE_FRACTION;
+
     logger.info({
       videosPerChannel: input.videosPerChannel,
       maxChannels: input.maxChannels,
-      hoursBack: input.hoursBack
+      group: input.group,
+      hoursBack: input.hoursBack,
+      sinceLastRun: input.sinceLastRun,
+      strategy: input.strategy
     }, 'Starting YouTube latest videos fetch');
 
+    const runAt = new Date();
+    const cache: DigestCacheStats = { transcripts: emptyCacheStats(), summaries: emptyCacheStats() };
     const youtube = getYouTubeClient();
     const results: z.infer<typeof ChannelVideosSchema>[] = [];
+    const completedChannelIds: string[] = [];
+
+    const state = input.sinceLastRun ? new DigestStateStore(config.youtube.stateFile) : null;
+
+    // Held from loading the state until it is saved, so overlapping runs can't email the same videos
+    await state?.acquireLock(config.timeout.digest);
+    try {
+      await state?.load();
+
+      let alreadyDelivered = 0;
+      const isDelivered = (videoId: string) => {
+        const delivered = state?.isDelivered(videoId) ?? false;
+        if (delivered) alreadyDelivered++;
+        return delivered;
+      };
+
+      // Unknown groups and broken group files fail before any quota is spent
+      const channelGroups = await loadChannelGroups();
+      if (input.group) assertGroupExists(channelGroups, input.group);
+
+      const quota = new QuotaTracker();
+
+      // 1. Fetch all subscriptions
+      const subscriptions = await fetchAllSubscriptions(youtube, quota, context.signal);
+
+      // 2. Apply include/exclude lists and the group, then limit channels
+      const selectedChannels = selectChannels(subscriptions, channelGroups, input.group);
+      const channelsToProcess = selectedChannels.slice(0, input.maxChannels);
+      logger.info({
+        subscriptionCount: subscriptions.length,
+        selected: selectedChannels.length,
+        group: input.group
+      }, 'Fetched YouTube subscriptions');
+
+      // 3. Calculate cutoff date
+      const cutoffDate = input.hoursBack
+        ? new Date(Date.now() - input.hoursBack * 60 * 60 * 1000)
+        : null;
+
+      await context.reportProgress(0, channelsToProcess.length, `Fetched ${subscriptions.length} subscriptions`);
+
+      // 4. Process channels concurrently (YOUTUBE_CHANNEL_CONCURRENCY), stopping when the quota runs low
+      //    or the deadline is near
+      let processedCount = 0;
+      let channelsNotProcessed = 0;
+      let channelsPastDeadline = 0;
+
+      const channelResults = await mapConcurrent(channelsToProcess, config.youtube.channelConcurrency, async (sub) => {
+        context.signal.throwIfAborted();
+        const { id: channelId, title: channelTitle, thumbnail: channelThumbnail } = sub;
+
+        if (quota.exhausted) {
+          channelsNotProcessed++;
+          return null;
+        }
 
-    // 1. Fetch all subscriptions
-    const subscriptions = await fetchAllSubscriptions(youtube);
-    logger.info({ subscriptionCount: subscriptions.length }, 'Fetched YouTube subscriptions');
-
-    // 2. Limit channels
-    const channelsToProcess = subscriptions.slice(0, input.maxChannels);
-
-    // 3. Calculate cutoff date
-    const cutoffDate = input.hoursBack
-      ? new Date(Date.now() - input.hoursBack * 60 * 60 * 1000)
-      : null;
-
-    // 4. Process each channel
-    let processedCount = 0;
-    for (const sub of channelsToProcess) {
-      processedCount++;
-      const channelId = sub.snippet?.resourceId?.channelId || '';
-      const channelTitle = sub.snippet?.title || '';
-      const channelThumbnail = sub.snippet?.thumbnails?.default?.url || '';
-
-      logger.debug({
-        channelTitle,
-        progress: `${processedCount}/${channelsToProcess.length}`
-      }, 'Processing channel');
-
-      try {
-        const channelResult = await processChannel(
-          youtube,
-          channelId,
-          channelTitle,
-          channelThumbnail,
-          input.videosPerChannel,
-          cutoffDate
-        );
-
-        if (channelResult.videos.length > 0) {
-          results.push(channelResult);
+        if (Date.now() > deadline) {
+          channelsPastDeadline++;
+          return null;
         }
-      } catch (error: any) {
-        logger.error({ channelTitle, channelId, error: error.message }, 'Error processing channel');
-        results.push({
-          channel: { id: channelId, title: channelTitle, thumbnail: channelThumbnail },
-          videos: [],
-          error: error.message
-        });
+
+        logger.debug({ channelTitle, channelId }, 'Processing channel');
+
+        // sinceLastRun: start from the channel's last delivered run when known
+        const channelCutoff = channelCutoffDate(state?.lastRunAt(channelId) ?? null, cutoffDate);
+
+        let channelResult: z.infer<typeof ChannelVideosSchema> | null;
+        try {
+          channelResult = await processChannel(
+            youtube,
+            quota,
+            input.strategy,
+            channelId,
+            channelTitle,
+            channelThumbnail,
+            input.videosPerChannel,
+            channelCutoff,
+            isDelivered,
+            cache,
+            context.signal
+          );
+          completedChannelIds.push(channelId);
+        } catch (error: any) {
+          context.signal.throwIfAborted();
+
+          if (error instanceof QuotaExhaustedError) {
+            logger.warn({ channelTitle, channelId }, error.message);
+            channelsNotProcessed++;
+            return null;
+          }
+
+          logger.error({ channelTitle, channelId, error: error.message }, 'Error processing channel');
+          channelResult = {
+            channel: { id: channelId, title: channelTitle, thumbnail: channelThumbnail },
+            videos: [],
+            error: error.message
+          };
+        }
+
+        processedCount++;
+        await context.reportProgress(processedCount, channelsToProcess.length, `Processed channel: ${channelTitle}`);
+        return channelResult;
+      });
+
+      // Keep subscription order; drop channels without new videos
+      results.push(...channelResults.filter((ch): ch is z.infer<typeof ChannelVideosSchema> =>
+        ch !== null && (ch.videos.length > 0 || ch.error !== undefined)));
+
+      // Channels skipped for quota or the deadline were never fetched, so their state is not advanced
+      if (quota.exhausted) {
+        logger.warn({ ...quota.summary(), channelsNotProcessed }, 'YouTube quota nearly exhausted, returning partial results');
+      }
+
+      if (channelsPastDeadline > 0) {
+        logger.warn({ channelsPastDeadline, timeout: config.timeout.digest }, 'Digest deadline reached, returning partial results');
       }
-    }
 
-    // 5. Summary stats
-    const totalVideos = results.reduce((sum, ch) => sum + ch.videos.length, 0);
-    const totalChannels = results.filter(ch => ch.videos.length > 0).length;
-    const summary = `Found ${totalVideos} video${totalVideos !== 1 ? 's' : ''} from ${totalChannels} channel${totalChannels !== 1 ? 's' : ''}`;
+      // 5. Summary stats
+      const totalVideos = results.reduce((sum, ch) => sum + ch.videos.length, 0);
+      const totalChannels = results.filter(ch => ch.videos.length > 0).length;
+      const summary = `Found ${totalVideos} video${totalVideos !== 1 ? 's' : ''} from ${totalChannels} channel${totalChannels !== 1 ? 's' : ''}`;
 
-    logger.info({ totalVideos, totalChannels }, 'Completed YouTube latest videos fetch');
+      logger.info({ totalVideos, totalChannels, cache, quotaUnits: quota.used }, 'Completed YouTube latest videos fetch');
 
-    // 6. Send email if requested
-    let emailSent = false;
-    if (input.sendEmail && config.gmail.recipientEmail && results.length > 0) {
-      try {
-        const { formatVideoDigestEmail } = await import('../../utils/email-formatter.js');
-        const { sendGmail } = await import('../../utils/gmail-sender.js');
+      // 6. Send email if requested
+      let emailSent = false;
+      if (input.sendEmail && config.gmail.recipientEmail && results.length > 0) {
+        try {
+          const { formatVideoDigestEmail } = await import('../../utils/email-formatter.js');
+          const { sendGmail } = await import('../../utils/gmail-sender.js');
 
-        const { subject, htmlBody } = formatVideoDigestEmail(results);
-        await sendGmail(config.gmail.recipientEmail, subject, htmlBody);
+          const { subject, htmlBody } = formatVideoDigestEmail(results);
+          await sendGmail(config.gmail.recipientEmail, subject, htmlBody, context.signal);
 
-        emailSent = true;
-        logger.info('Email digest sent successfully');
-      } catch (error: any) {
-        logger.warn({ error: error.message }, 'Failed to send email digest (non-fatal)');
+          emailSent = true;
+          logger.info('Email digest sent successfully');
+        } catch (error: any) {
+          logger.warn({ error: error.message }, 'Failed to send email digest (non-fatal)');
+        }
       }
-    }
 
-    return {
-      channels: results,
-      totalVideos,
-      totalChannels,
-      summary,
-      emailSent
-    };
+      // 7. Mark videos delivered - only once the digest email actually went out
+      if (state && emailSent) {
+        const deliveredIds = results.flatMap(ch => ch.videos.map(video => video.videoId));
+        try {
+          await state.markDelivered(deliveredIds, completedChannelIds, runAt);
+        } catch (error: any) {
+          logger.error({ error: error.message, path: config.youtube.stateFile }, 'Failed to save YouTube digest state');
+        }
+      }
+
+      return {
+        channels: results,
+        totalVideos,
+        totalChannels,
+        summary,
+        emailSent,
+        cache,
+        ...(state && { alreadyDelivered }),
+        quota: { ...quota.summary(), channelsNotProcessed },
+        deadline: { reached: channelsPastDeadline > 0, channelsNotProcessed: channelsPastDeadline }
+      };
+    } finally {
+      await state?.releaseLock();
+    }
   }
 });
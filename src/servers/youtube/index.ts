@@ -6,4 +6,9 @@
  */
 
 export * from './getLatestVideos.js';
+export * from './ingestTranscripts.js';
+export * from './listSubscriptions.js';
+export * from './channels.js';
+export * from './feeds.js';
+export * from './transcripts.js';
 export * from './utils.js';
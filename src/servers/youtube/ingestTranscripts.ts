@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { getYouTubeClient } from '../../utils/google-auth.js';
+import { emptyCacheStats } from '../../utils/persistent-cache.js';
+import { deleteStaleChunks, upsertPoints, type PreparedPoint } from '../qdrant-rag/ingest.js';
+import { buildPayload, chunkPointId } from '../qdrant-rag/utils.js';
+import { channelIdToUploadsPlaylistId } from './utils.js';
+import { callYouTube, QuotaTracker } from './quota.js';
+import { chunkTranscript, fetchTranscriptSegments, watchUrl } from './transcripts.js';
+
+/**
+ * Video IDs per videos.list request (YouTube Data API maximum)
+ */
+const VIDEOS_PER_REQUEST = 50;
+
+const VideoRefSchema = z.object({
+  videoId: z.string().min(1),
+  title: z.string().optional(),
+  publishedAt: z.string().optional(),
+  channelId: z.string().optional(),
+  channelTitle: z.string().optional()
+});
+
+const IngestTranscriptsInputSchema = z.object({
+  videoIds: z.array(z.string().min(1)).min(1).max(200).optional()
+    .describe('Video IDs to ingest'),
+  channelId: z.string().startsWith('UC').optional()
+    .describe('Ingest the latest uploads of this channel (UC...)'),
+  videosPerChannel: z.number().int().min(1).max(50).optional()
+    .default(config.youtube.defaultVideosPerChannel)
+    .describe('Latest uploads to ingest when channelId is given'),
+  channels: z.array(z.object({ videos: z.array(VideoRefSchema) })).optional()
+    .describe('`channels` from a youtube__get_latest_videos result'),
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  lang: z.string().optional()
+    .describe('Caption language code (default: first available track)'),
+  chunkSize: z.number().int().min(100).max(8000).optional()
+    .default(config.qdrant.defaultChunkSize)
+    .describe('Maximum chunk length in characters'),
+  chunkOverlap: z.number().int().min(0).max(2000).optional()
+    .default(config.qdrant.defaultChunkOverlap)
+    .describe('Characters of captions shared between consecutive chunks'),
+  batchSize: z.number().int().min(1).max(256).optional()
+    .default(config.qdrant.embeddingBatchSize)
+    .describe('Chunks per embedding request and upsert')
+}).refine(input => [input.videoIds, input.channelId, input.channels].filter(Boolean).length === 1, {
+  message: 'Provide exactly one of videoIds, channelId, channels',
+  path: ['videoIds']
+}).refine(input => input.chunkOverlap < input.chunkSize, {
+  message: 'chunkOverlap must be smaller than chunkSize',
+  path: ['chunkOverlap']
+});
+
+const IngestTranscriptsOutputSchema = z.object({
+  collection: z.string(),
+  videos: z.number().describe('Videos whose transcripts were ingested'),
+  chunks: z.number(),
+  upserted: z.number(),
+  vectorName: z.string().optional(),
+  sparseVectorName: z.string().optional(),
+  videoIds: z.array(z.string()),
+  skipped: z.array(z.object({
+    videoId: z.string(),
+    reason: z.string()
+  })).describe('Videos left out (no transcript, not found)'),
+  transcriptCache: z.object({
+    hits: z.number(),
+    misses: z.number()
+  }).describe('Persistent transcript cache hits/misses during this call')
+});
+
+type VideoRef = z.infer<typeof VideoRefSchema>;
+type Skipped = z.infer<typeof IngestTranscriptsOutputSchema>['skipped'][number];
+
+/**
+ * Look up title and channel for video IDs; unknown IDs are reported as skipped
+ */
+async function fetchVideoDetails(
+  youtube: ReturnType<typeof getYouTubeClient>,
+  quota: QuotaTracker,
+  videoIds: string[],
+  skipped: Skipped[],
+  signal: AbortSignal
+): Promise<VideoRef[]> {
+  const videos: VideoRef[] = [];
+
+  for (let i = 0; i < videoIds.length; i += VIDEOS_PER_REQUEST) {
+    const batch = videoIds.slice(i, i + VIDEOS_PER_REQUEST);
+    const response = await callYouTube(quota, 'videos.list', signal,
+      () => youtube.videos.list({ part: ['snippet'], id: batch }, { signal }));
+    const found = new Map((response.data.items || []).map(item => [item.id || '', item]));
+
+    for (const videoId of batch) {
+      const item = found.get(videoId);
+
+      if (!item) {
+        skipped.push({ videoId, reason: 'Video not found' });
+        continue;
+      }
+
+      videos.push({
+        videoId,
+        title: item.snippet?.title || '',
+        publishedAt: item.snippet?.publishedAt || '',
+        channelId: item.snippet?.channelId || '',
+        channelTitle: item.snippet?.channelTitle || ''
+      });
+    }
+  }
+
+  return videos;
+}
+
+/**
+ * Latest uploads of a channel
+ */
+async function fetchChannelVideos(
+  youtube: ReturnType<typeof getYouTubeClient>,
+  quota: QuotaTracker,
+  channelId: string,
+  videosPerChannel: number,
+  signal: AbortSignal
+): Promise<VideoRef[]> {
+  const response = await callYouTube(quota, 'playlistItems.list', signal, () => youtube.playlistItems.list({
+    part: ['snippet', 'contentDetails'],
+    playlistId: channelIdToUploadsPlaylistId(channelId),
+    maxResults: videosPerChannel
+  }, { signal }));
+
+  return (response.data.items || []).map(item => ({
+    videoId: item.contentDetails?.videoId || '',
+    title: item.snippet?.title || '',
+    publishedAt: item.contentDetails?.videoPublishedAt || item.snippet?.publishedAt || '',
+    channelId: item.snippet?.channelId || channelId,
+    channelTitle: item.snippet?.channelTitle || ''
+  })).filter(video => video.videoId);
+}
+
+/**
+ * Ingest YouTube video transcripts into Qdrant
+ *
+ * Takes video IDs, a channel's latest uploads, or the `channels` of a
+ * youtube__get_latest_videos result. Captions are grouped into overlapping
+ * chunks of whole caption segments, embedded and upserted through the same
+ * path as qdrant_rag__ingest.
+ *
+ * Payload per chunk (next to `content`):
+ * - `source: 'youtube'`, `videoId`, `title`, `channelId`, `channelTitle`, `publishedAt`
+ * - `start` / `end` - chunk time range in seconds
+ * - `url` - watch?v=...&t= deep link to the chunk start
+ * - `documentId` (`youtube:<videoId>`), `chunkIndex`, `chunkCount`
+ *
+ * Re-ingesting a video overwrites its chunks and deletes trailing ones the
+ * new chunking no longer produces (e.g. after a larger chunkSize or another
+ * lang). Videos without captions are listed in `skipped`.
+ *
+ * @example
+ * ```typescript
+ * const latest = await getLatestVideos.call({ hoursBack: 24 });
+ * await ingestTranscripts.call({ channels: latest.channels, collection: 'youtube' });
+ * ```
+ */
+export const ingestTranscripts = createTool({
+  name: 'youtube__ingest_transcripts',
+  description: 'Chunk YouTube transcripts with timestamps and upsert them into a Qdrant collection for search with deep links',
+  input: IngestTranscriptsInputSchema,
+  output: IngestTranscriptsOutputSchema,
+  timeout: config.timeout.long,
+  execute: async (input, context) => {
+    const skipped: Skipped[] = [];
+    const transcriptCache = emptyCacheStats();
+    let videos: VideoRef[];
+
+    if (input.channels) {
+      videos = input.channels.flatMap(channel => channel.videos);
+    } else {
+      const youtube = getYouTubeClient();
+      const quota = new QuotaTracker();
+      videos = input.channelId
+        ? await fetchChannelVideos(youtube, quota, input.channelId, input.videosPerChannel, context.signal)
+        : await fetchVideoDetails(youtube, quota, Array.from(new Set(input.videoIds)), skipped, context.signal);
+    }
+
+    logger.info({
+      collection: input.collection,
+      videos: videos.length,
+      channelId: input.channelId
+    }, 'Starting YouTube transcript ingest');
+
+    const points: PreparedPoint[] = [];
+    const videoIds: string[] = [];
+    const chunkCounts: Array<{ documentId: string; chunkCount: number }> = [];
+    const chunkOptions = { chunkSize: input.chunkSize, chunkOverlap: input.chunkOverlap };
+
+    for (const [index, video] of videos.entries()) {
+      context.signal.throwIfAborted();
+
+      const segments = await fetchTranscriptSegments(video.videoId, {
+        lang: input.lang,
+        signal: context.signal,
+        cacheStats: transcriptCache
+      });
+      await context.reportProgress(index + 1, videos.length, `Fetched transcript ${index + 1}/${videos.length}`);
+
+      if (!segments) {
+        skipped.push({ videoId: video.videoId, reason: 'No transcript available' });
+        continue;
+      }
+
+      const documentId = `youtube:${video.videoId}`;
+      const chunks = chunkTranscript(segments, chunkOptions);
+      videoIds.push(video.videoId);
+      chunkCounts.push({ documentId, chunkCount: chunks.length });
+
+      chunks.forEach((chunk, chunkIndex) => {
+        points.push({
+          id: chunkPointId(documentId, chunkIndex),
+          content: chunk.content,
+          payload: buildPayload(chunk.content, {
+            source: 'youtube',
+            videoId: video.videoId,
+            title: video.title || '',
+            channelId: video.channelId || '',
+            channelTitle: video.channelTitle || '',
+            publishedAt: video.publishedAt || '',
+            start: chunk.start,
+            end: chunk.end,
+            url: watchUrl(video.videoId, chunk.start),
+            documentId,
+            chunkIndex,
+            chunkCount: chunks.length
+          })
+        });
+      });
+    }
+
+    const result = points.length > 0
+      ? await upsertPoints(input.collection, points, { batchSize: input.batchSize }, context)
+      : { upserted: 0 };
+    await deleteStaleChunks(input.collection, chunkCounts, context.signal);
+
+    logger.info({
+      collection: input.collection,
+      videos: videoIds.length,
+      chunks: points.length,
+      skipped: skipped.length,
+      transcriptCache
+    }, 'YouTube transcript ingest completed');
+
+    return {
+      collection: input.collection,
+      videos: videoIds.length,
+      chunks: points.length,
+      ...result,
+      videoIds,
+      skipped,
+      transcriptCache
+    };
+  }
+});
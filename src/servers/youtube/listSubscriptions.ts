@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { createTool } from '../../utils/tool-factory.js';
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config.js';
+import { getYouTubeClient } from '../../utils/google-auth.js';
+import { QuotaTracker } from './quota.js';
+import {
+  assertGroupExists,
+  channelGroupsOf,
+  fetchAllSubscriptions,
+  isChannelAllowed,
+  loadChannelGroups,
+  selectChannels
+} from './channels.js';
+
+const ListSubscriptionsInputSchema = z.object({
+  group: z.string().min(1).optional()
+    .describe('Only channels of this named group'),
+  includeDescriptions: z.boolean().optional().default(false)
+    .describe('Include channel descriptions')
+});
+
+const ListSubscriptionsOutputSchema = z.object({
+  channels: z.array(z.object({
+    id: z.string().describe('Channel ID (UC...), usable in include/exclude lists'),
+    title: z.string(),
+    description: z.string().optional(),
+    thumbnail: z.string(),
+    groups: z.array(z.string()).describe('Groups the channel belongs to'),
+    excluded: z.boolean().describe('Left out of digests by the top-level include/exclude lists')
+  })),
+  total: z.number(),
+  groups: z.array(z.string()).describe('Groups defined in YOUTUBE_CHANNEL_GROUPS_FILE'),
+  quota: z.object({
+    unitsUsed: z.number(),
+    exhausted: z.boolean().describe('Listing stopped early because the daily quota is nearly used up')
+  })
+});
+
+/**
+ * List subscribed YouTube channels with their IDs
+ *
+ * Meant for building the channel groups file (YOUTUBE_CHANNEL_GROUPS_FILE):
+ * each channel is returned with the groups it already belongs to and
+ * whether the top-level include/exclude lists keep it out of digests.
+ * Channels are sorted by title.
+ *
+ * @example
+ * ```typescript
+ * const { channels } = await listSubscriptions.call({});
+ * const tech = await listSubscriptions.call({ group: 'tech' });
+ * ```
+ */
+export const listSubscriptions = createTool({
+  name: 'youtube__list_subscriptions',
+  description: 'List subscribed YouTube channels with IDs and group membership, for building channel groups',
+  input: ListSubscriptionsInputSchema,
+  output: ListSubscriptionsOutputSchema,
+  timeout: config.timeout.default,
+  execute: async (input, context) => {
+    const channelGroups = await loadChannelGroups();
+    if (input.group) assertGroupExists(channelGroups, input.group);
+
+    const quota = new QuotaTracker();
+    const subscriptions = await fetchAllSubscriptions(getYouTubeClient(), quota, context.signal);
+    const selected = input.group ? selectChannels(subscriptions, channelGroups, input.group) : subscriptions;
+
+    const channels = selected
+      .map(channel => ({
+        id: channel.id,
+        title: channel.title,
+        ...(input.includeDescriptions && { description: channel.description }),
+        thumbnail: channel.thumbnail,
+        groups: channelGroupsOf(channel, channelGroups),
+        excluded: !isChannelAllowed(channel, channelGroups)
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+
+    logger.info({ subscriptions: subscriptions.length, listed: channels.length, group: input.group }, 'Listed YouTube subscriptions');
+
+    return {
+      channels,
+      total: channels.length,
+      groups: Object.keys(channelGroups.groups ?? {}),
+      quota: { unitsUsed: quota.used, exhausted: quota.exhausted }
+    };
+  }
+});
@@ -0,0 +1,10 @@
+import type { ServerManifest } from '../../types/index.js';
+
+/**
+ * YouTube server manifest - read by tool discovery
+ */
+export const manifest: ServerManifest = {
+  name: 'youtube',
+  description: 'YouTube integration via Google API - latest videos with AI summaries and transcripts',
+  version: '2.0.0'
+};
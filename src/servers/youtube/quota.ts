@@ -0,0 +1,107 @@
+/**
+ * YouTube Data API Quota
+ *
+ * Every Data API request costs quota units out of a daily budget
+ * (YOUTUBE_QUOTA_DAILY_LIMIT, 10 000 by default; resets at midnight
+ * Pacific time). QuotaTracker counts units per run and refuses requests
+ * once the day's usage would cut into YOUTUBE_QUOTA_RESERVE, so runs stop
+ * cleanly with partial results instead of failing mid-way with quotaExceeded.
+ *
+ * Daily usage is counted in-process: restarting the server resets it.
+ */
+
+import { config } from '../../config.js';
+import { limited } from '../../utils/rate-limit.js';
+
+/**
+ * Unit cost of the Data API methods used by the YouTube tools
+ */
+export const QUOTA_COSTS = {
+  'subscriptions.list': 1,
+  'playlistItems.list': 1,
+  'videos.list': 1
+} as const;
+
+export type QuotaMethod = keyof typeof QUOTA_COSTS;
+
+/**
+ * Thrown when a request would exceed the usable daily quota
+ */
+export class QuotaExhaustedError extends Error {
+  constructor(method: QuotaMethod, dailyUsed: number, dailyLimit: number) {
+    super(`YouTube quota nearly exhausted (${dailyUsed}/${dailyLimit} units used today), skipping ${method}`);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+const dailyUsage = { day: '', used: 0 };
+
+/**
+ * Quota day (YYYY-MM-DD in Pacific time, when YouTube resets quotas)
+ */
+function quotaDay(now = new Date()): string {
+  return now.toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+}
+
+export class QuotaTracker {
+  /** Units spent by this run */
+  used = 0;
+  exhausted = false;
+
+  constructor(
+    private readonly dailyLimit = config.youtube.quotaDailyLimit,
+    private readonly reserve = config.youtube.quotaReserve
+  ) {}
+
+  get dailyUsed(): number {
+    return dailyUsage.day === quotaDay() ? dailyUsage.used : 0;
+  }
+
+  /**
+   * Reserve units for a request, or throw QuotaExhaustedError
+   */
+  spend(method: QuotaMethod): void {
+    const day = quotaDay();
+    if (dailyUsage.day !== day) {
+      dailyUsage.day = day;
+      dailyUsage.used = 0;
+    }
+
+    const units = QUOTA_COSTS[method];
+    if (dailyUsage.used + units > this.dailyLimit - this.reserve) {
+      this.exhausted = true;
+      throw new QuotaExhaustedError(method, dailyUsage.used, this.dailyLimit);
+    }
+
+    dailyUsage.used += units;
+    this.used += units;
+  }
+
+  summary() {
+    return {
+      unitsUsed: this.used,
+      dailyUnitsUsed: this.dailyUsed,
+      dailyLimit: this.dailyLimit,
+      exhausted: this.exhausted
+    };
+  }
+}
+
+/**
+ * Make a Data API request: charge its quota, then run it through the shared YouTube limiter
+ *
+ * @example
+ * ```typescript
+ * const response = await callYouTube(quota, 'videos.list', signal,
+ *   () => youtube.videos.list({ part: ['snippet'], id: ids }, { signal }));
+ * ```
+ */
+export async function callYouTube<T>(
+  quota: QuotaTracker,
+  method: QuotaMethod,
+  signal: AbortSignal,
+  request: () => Promise<T>
+): Promise<T> {
+  quota.spend(method);
+  return limited('youtube', request, signal);
+}
@@ -0,0 +1,141 @@
+/**
+ * YouTube Digest State
+ *
+ * Small JSON file (YOUTUBE_STATE_FILE) remembering which videos were already
+ * delivered and when each channel was last delivered, so `sinceLastRun`
+ * digests pick up exactly the videos that are new since the previous run.
+ *
+ * A sinceLastRun run holds a lock file (`<state file>.lock`) from loading
+ * the state until it is saved, so overlapping runs can't read the same
+ * state and email the same videos. Writes also re-read the file first and
+ * merge, and go through a temp file + rename so a crash never leaves
+ * half-written JSON behind.
+ */
+
+import { mkdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Delivered video IDs older than this are forgotten (uploads that old are
+ * long past any sinceLastRun window)
+ */
+const DELIVERED_RETENTION_DAYS = 90;
+
+export interface DigestState {
+  /** Channel ID → ISO time of the last delivered run */
+  channels: Record<string, { lastRunAt: string }>;
+  /** Video ID → ISO time it was delivered */
+  delivered: Record<string, string>;
+}
+
+function emptyState(): DigestState {
+  return { channels: {}, delivered: {} };
+}
+
+export class DigestStateStore {
+  private state: DigestState = emptyState();
+  private locked = false;
+
+  constructor(private readonly path: string) {}
+
+  private get lockPath(): string {
+    return `${this.path}.lock`;
+  }
+
+  /**
+   * Take the run lock. A lock older than staleAfterMs belongs to a run that
+   * crashed or was killed (no run outlives its timeout) and is taken over.
+   *
+   * @throws Error if another run holds the lock
+   */
+  async acquireLock(staleAfterMs: number): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await writeFile(this.lockPath, JSON.stringify({ pid: process.pid, lockedAt: new Date().toISOString() }), { flag: 'wx' });
+        this.locked = true;
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+      }
+
+      const lockedAt = await stat(this.lockPath).then(info => info.mtimeMs, () => 0);
+      if (Date.now() - lockedAt <= staleAfterMs) break;
+
+      logger.warn({ path: this.lockPath }, 'Taking over stale YouTube state lock');
+      await rm(this.lockPath, { force: true });
+    }
+
+    throw new Error(`Another sinceLastRun digest is running (lock file ${this.lockPath}); try again when it finishes`);
+  }
+
+  /**
+   * Release the run lock if this store holds it
+   */
+  async releaseLock(): Promise<void> {
+    if (!this.locked) return;
+    this.locked = false;
+    await rm(this.lockPath, { force: true });
+  }
+
+  /**
+   * Load state from disk; a missing or unreadable file starts empty
+   */
+  async load(): Promise<DigestState> {
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf-8'));
+      this.state = {
+        channels: parsed.channels ?? {},
+        delivered: parsed.delivered ?? {}
+      };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn({ error: error.message, path: this.path }, 'Unreadable YouTube state file, starting empty');
+      }
+      this.state = emptyState();
+    }
+    return this.state;
+  }
+
+  isDelivered(videoId: string): boolean {
+    return videoId in this.state.delivered;
+  }
+
+  lastRunAt(channelId: string): Date | null {
+    const lastRunAt = this.state.channels[channelId]?.lastRunAt;
+    return lastRunAt ? new Date(lastRunAt) : null;
+  }
+
+  /**
+   * Record videos as delivered and advance lastRunAt of their channels
+   */
+  async markDelivered(videoIds: string[], channelIds: string[], runAt: Date): Promise<void> {
+    // Merge into the latest state on disk in case another run wrote meanwhile
+    await this.load();
+
+    const timestamp = runAt.toISOString();
+    for (const videoId of videoIds) {
+      this.state.delivered[videoId] = timestamp;
+    }
+    for (const channelId of channelIds) {
+      const previous = this.state.channels[channelId]?.lastRunAt;
+      if (!previous || previous < timestamp) {
+        this.state.channels[channelId] = { lastRunAt: timestamp };
+      }
+    }
+
+    const cutoff = new Date(runAt.getTime() - DELIVERED_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    for (const [videoId, deliveredAt] of Object.entries(this.state.delivered)) {
+      if (deliveredAt < cutoff) delete this.state.delivered[videoId];
+    }
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(this.state, null, 2));
+    await rename(tempPath, this.path);
+
+    logger.debug({ path: this.path, videos: videoIds.length, channels: channelIds.length }, 'Saved YouTube digest state');
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * YouTube Transcripts
+ *
+ * Fetches caption tracks (youtube-transcript) and splits them into
+ * timestamped chunks for embedding. Timestamps are in seconds.
+ * Fetched transcripts are kept in the persistent cache (namespace "transcripts").
+ */
+
+import type { ChunkOptions } from '../qdrant-rag/chunking.js';
+import { getCache, PersistentCache, type CacheStats } from '../../utils/persistent-cache.js';
+import { limited } from '../../utils/rate-limit.js';
+import { abortable } from '../../utils/abort.js';
+
+export interface TranscriptSegment {
+  text: string;
+  /** Start time in seconds */
+  start: number;
+  /** Duration in seconds */
+  duration: number;
+}
+
+export interface TranscriptChunk {
+  content: string;
+  /** Start of the first segment, in seconds */
+  start: number;
+  /** End of the last segment, in seconds */
+  end: number;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'"
+};
+
+/**
+ * Caption text comes HTML-escaped, sometimes twice (&amp;#39;)
+ */
+function decodeEntities(text: string): string {
+  const decode = (value: string) => value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&(amp|lt|gt|quot|apos|#39);/g, entity => HTML_ENTITIES[entity]);
+
+  return decode(decode(text)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Persistent cache of fetched transcripts, shared by the YouTube tools
+ */
+export function getTranscriptCache(): PersistentCache<TranscriptSegment[] | null> {
+  return getCache('transcripts');
+}
+
+export interface TranscriptFetchOptions {
+  /** Caption language code (default: first available track) */
+  lang?: string;
+  /** Abort signal of the calling tool; an aborted fetch rejects instead of resolving to null */
+  signal?: AbortSignal;
+  /** Per-call cache hit/miss counters */
+  cacheStats?: CacheStats;
+}
+
+/**
+ * Fetch transcript segments for a video, or null when it has no captions.
+ * Found transcripts are cached; missing ones are retried on the next call.
+ */
+export async function fetchTranscriptSegments(
+  videoId: string,
+  { lang, signal, cacheStats }: TranscriptFetchOptions = {}
+): Promise<TranscriptSegment[] | null> {
+  return getTranscriptCache().getOrSet(
+    PersistentCache.key(videoId, lang ?? ''),
+    () => downloadTranscript(videoId, lang, signal),
+    segments => segments !== null,
+    cacheStats
+  );
+}
+
+async function downloadTranscript(videoId: string, lang?: string, signal?: AbortSignal): Promise<TranscriptSegment[] | null> {
+  try {
+    const { YoutubeTranscript } = await import('youtube-transcript');
+    // youtube-transcript takes no signal: stop waiting on abort, the download itself runs out
+    const entries = await limited('transcripts',
+      () => abortable(YoutubeTranscript.fetchTranscript(videoId, lang ? { lang } : undefined), signal), signal);
+    const segments = (entries || [])
+      .map(entry => ({ text: decodeEntities(entry.text), start: entry.offset, duration: entry.duration }))
+      .filter(segment => segment.text.length > 0);
+
+    return segments.length > 0 ? segments : null;
+  } catch {
+    signal?.throwIfAborted();
+    return null;
+  }
+}
+
+/**
+ * Fetch the full transcript of a video as plain text
+ */
+export async function fetchTranscript(
+  videoId: string,
+  options: Omit<TranscriptFetchOptions, 'lang'> = {}
+): Promise<string | null> {
+  const segments = await fetchTranscriptSegments(videoId, options);
+  return segments ? segments.map(segment => segment.text).join(' ') : null;
+}
+
+/**
+ * Group transcript segments into overlapping chunks of whole segments.
+ * Segments are never split, so every chunk starts at a real caption timestamp.
+ *
+ * @example
+ * ```typescript
+ * chunkTranscript(segments, { chunkSize: 1000, chunkOverlap: 200 });
+ * // [{ content: '...', start: 0, end: 61.2 }, { content: '...', start: 52.8, end: 118.4 }]
+ * ```
+ */
+export function chunkTranscript(segments: TranscriptSegment[], options: ChunkOptions): TranscriptChunk[] {
+  const { chunkSize, chunkOverlap } = options;
+
+  if (chunkOverlap >= chunkSize) {
+    throw new Error(`chunkOverlap (${chunkOverlap}) must be smaller than chunkSize (${chunkSize})`);
+  }
+
+  const chunks: TranscriptChunk[] = [];
+  let start = 0;
+
+  while (start < segments.length) {
+    // Always take at least one segment, then add while the chunk fits
+    let end = start + 1;
+    let length = segments[start].text.length;
+
+    while (end < segments.length && length + 1 + segments[end].text.length <= chunkSize) {
+      length += 1 + segments[end].text.length;
+      end++;
+    }
+
+    const window = segments.slice(start, end);
+    const last = window[window.length - 1];
+    chunks.push({
+      content: window.map(segment => segment.text).join(' '),
+      start: window[0].start,
+      end: last.start + last.duration
+    });
+
+    if (end >= segments.length) {
+      break;
+    }
+
+    // Step back by whole segments fitting in the overlap, but always move forward
+    let next = end;
+    let overlap = 0;
+    while (next - 1 > start && overlap + segments[next - 1].text.length <= chunkOverlap) {
+      overlap += segments[next - 1].text.length + 1;
+      next--;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Watch URL, optionally starting at a given second
+ */
+export function watchUrl(videoId: string, seconds?: number): string {
+  const url = `https://www.youtube.com/watch?v=${videoId}`;
+  return seconds !== undefined && seconds >= 1 ? `${url}&t=${Math.floor(seconds)}` : url;
+}
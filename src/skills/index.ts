@@ -0,0 +1,111 @@
+/**
+ * Skills
+ *
+ * Declarative multi-step workflows built from existing tools (see defineSkill).
+ * Every skill module in this directory is registered as a composite tool
+ * `skills__<name>` and published as an MCP prompt.
+ *
+ * A skill is only registered when all of its requiredServers and step tools
+ * are available in the registry.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { logger } from '../utils/logger.js';
+import { toMcpToolName } from '../utils/tool-names.js';
+import { discoverServerDirectory } from '../servers/discovery.js';
+import type { SkillStepInfo } from '../utils/skill-factory.js';
+import type { ServerMetadata, SkillMetadata } from '../types/index.js';
+import type { ZodType } from 'zod';
+
+/**
+ * Loaded skill, keyed by its composite tool name
+ */
+export interface SkillInfo {
+  toolName: string;
+  metadata: SkillMetadata;
+  steps: SkillStepInfo[];
+  inputSchema: ZodType;
+}
+
+const SKILLS_DIR = fileURLToPath(new URL('.', import.meta.url));
+
+const skillRegistry = new Map<string, SkillInfo>();
+
+/**
+ * Load skills and validate requiredServers/step tools against the given servers
+ *
+ * @param servers - Servers registered so far (built-in + plugins)
+ * @returns Skills server metadata, or null when no skill could be registered
+ */
+export async function loadSkills(servers: ServerMetadata[]): Promise<ServerMetadata | null> {
+  const { server, problems } = await discoverServerDirectory(SKILLS_DIR, 'skills');
+
+  for (const problem of problems) {
+    logger.error(problem, 'Skill discovery problem');
+  }
+
+  const serverNames = new Set(servers.map(s => s.name));
+  const toolNames = new Set(servers.flatMap(s => s.tools.map(tool => toMcpToolName(s.name, tool))));
+
+  skillRegistry.clear();
+  const registered: string[] = [];
+
+  for (const exportName of server.tools) {
+    const module = await import(server.toolModules![exportName]);
+    const skill = module[exportName];
+    const toolName = toMcpToolName(server.name, exportName);
+
+    if (!skill.skill) {
+      logger.warn({ tool: toolName }, 'Tool in skills directory is not a skill (use defineSkill), skipping');
+      continue;
+    }
+
+    const missingServers = (skill.skill as SkillMetadata).requiredServers.filter(name => !serverNames.has(name));
+    const missingTools = (skill.steps as SkillStepInfo[])
+      .filter(step => step.tool && !toolNames.has(step.tool))
+      .map(step => step.tool);
+
+    if (missingServers.length > 0 || missingTools.length > 0) {
+      logger.error({
+        skill: skill.skill.name,
+        missingServers,
+        missingTools
+      }, 'Skill requirements not met, skipping');
+      continue;
+    }
+
+    skillRegistry.set(toolName, {
+      toolName,
+      metadata: skill.skill,
+      steps: skill.steps,
+      inputSchema: skill.inputSchema
+    });
+    registered.push(exportName);
+  }
+
+  logger.info({ skills: Array.from(skillRegistry.values()).map(s => s.metadata.name) }, 'Skills loaded');
+
+  if (registered.length === 0) {
+    return null;
+  }
+
+  return {
+    ...server,
+    tools: registered,
+    toolModules: Object.fromEntries(registered.map(name => [name, server.toolModules![name]]))
+  };
+}
+
+/**
+ * Get all loaded skills
+ */
+export function getSkills(): SkillInfo[] {
+  return Array.from(skillRegistry.values());
+}
+
+/**
+ * Get a loaded skill by skill name (e.g. knowledge-digest)
+ */
+export function getSkill(name: string): SkillInfo | undefined {
+  return getSkills().find(skill => skill.metadata.name === name);
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { defineSkill } from '../utils/skill-factory.js';
+import { summarize } from '../utils/ai-summarizer.js';
+import { config } from '../config.js';
+
+interface SearchHit {
+  id: string | number;
+  score: number;
+  content: string;
+}
+
+const DIGEST_PROMPT = 'You are summarizing passages retrieved from a knowledge base for the query given first. Write a short digest (at most 5 sentences) in the same language as the passages, covering what they say about the query. Use only the passages; if they do not address the query, say so.';
+
+function searchHits(results: Record<string, unknown>): SearchHit[] {
+  return (results.search as { results: SearchHit[] }).results;
+}
+
+const KnowledgeDigestInputSchema = z.object({
+  query: z.string().min(1).describe('What to look up in the knowledge base'),
+  collection: z.string().optional()
+    .default(config.qdrant.collection)
+    .describe('Qdrant collection name'),
+  limit: z.number().min(1).max(20).optional().default(5)
+    .describe('Maximum number of hits to summarize'),
+  sendEmail: z.boolean().optional().default(false)
+    .describe('Send the digest to configured RECIPIENT_EMAIL')
+});
+
+const KnowledgeDigestOutputSchema = z.object({
+  query: z.string(),
+  summary: z.string().describe('AI summary of the hits'),
+  totalHits: z.number(),
+  sources: z.array(z.union([z.string(), z.number()])).describe('IDs of the summarized hits'),
+  emailSent: z.boolean()
+});
+
+/**
+ * Knowledge digest skill
+ *
+ * Searches the knowledge base, summarizes the hits and optionally
+ * emails the digest.
+ *
+ * Flow:
+ * 1. qdrant_rag__search
+ * 2. AI digest of hit contents (knowledge-base prompt, not the video one)
+ * 3. Optional: Gmail digest
+ */
+export const knowledgeDigest = defineSkill({
+  name: 'knowledge-digest',
+  description: 'Search the knowledge base, summarize the hits and optionally email the digest',
+  requiredServers: ['qdrant-rag'],
+  examples: [
+    'Summarize what our docs say about authentication',
+    'Email me a digest of notes about the Q3 roadmap'
+  ],
+  input: KnowledgeDigestInputSchema,
+  output: KnowledgeDigestOutputSchema,
+  timeout: config.timeout.long,
+  steps: [
+    {
+      id: 'search',
+      description: 'Search the knowledge base',
+      tool: 'qdrant_rag__search',
+      args: ({ input }) => ({ query: input.query, collection: input.collection, limit: input.limit })
+    },
+    {
+      id: 'summary',
+      description: 'Summarize search hits',
+      run: async ({ input, results }, context) => {
+        const hits = searchHits(results);
+        if (hits.length === 0) {
+          return 'No matching documents found.';
+        }
+        const text = [`Query: ${input.query}`, ...hits.map(hit => hit.content)].join('\n\n');
+        return await summarize(text, 8000, {
+          signal: context.signal,
+          systemPrompt: DIGEST_PROMPT,
+          maxTokens: 400
+        }) || 'No summary available.';
+      }
+    },
+    {
+      id: 'email',
+      description: 'Send email digest',
+      when: ({ input, results }) =>
+        input.sendEmail && !!config.gmail.recipientEmail && searchHits(results).length > 0,
+      run: async ({ input, results }, context) => {
+        const { formatKnowledgeDigestEmail } = await import('../utils/email-formatter.js');
+        const { sendGmail } = await import('../utils/gmail-sender.js');
+
+        const { subject, htmlBody } = formatKnowledgeDigestEmail(input.query, results.summary as string, searchHits(results));
+        return await sendGmail(config.gmail.recipientEmail, subject, htmlBody, context.signal);
+      }
+    }
+  ],
+  result: ({ input, results }) => ({
+    query: input.query,
+    summary: results.summary as string,
+    totalHits: searchHits(results).length,
+    sources: searchHits(results).map(hit => hit.id),
+    emailSent: results.email !== undefined
+  })
+});
@@ -0,0 +1,10 @@
+import type { ServerManifest } from '../types/index.js';
+
+/**
+ * Skills manifest - composite tools are registered as skills__<name>
+ */
+export const manifest: ServerManifest = {
+  name: 'skills',
+  description: 'Multi-step workflows composed of existing tools',
+  version: '1.0.0'
+};
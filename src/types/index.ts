@@ -14,6 +14,45 @@ export class ToolError extends Error {
   }
 }
 
+/**
+ * Single field-level validation problem
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Tool input or output failed schema validation
+ * - input: caller sent invalid arguments (maps to JSON-RPC -32602)
+ * - output: tool returned data that does not match its outputSchema
+ */
+export class ToolValidationError extends ToolError {
+  constructor(
+    tool: string,
+    public phase: 'input' | 'output',
+    public issues: ValidationIssue[],
+    cause?: Error
+  ) {
+    super(
+      tool,
+      `Validation failed (${phase}): ${issues.map(i => `${i.path}: ${i.message}`).join(', ')}`,
+      cause,
+      false
+    );
+    this.name = 'ToolValidationError';
+    Error.captureStackTrace(this, ToolValidationError);
+  }
+}
+
+/**
+ * Transport used to expose the MCP server
+ * - stdio: local process launched by a desktop MCP client
+ * - http: Streamable HTTP with Bearer token auth (Docker, remote access)
+ */
+export type TransportMode = 'stdio' | 'http';
+
 /**
  * Configuration for environment variables
  */
@@ -29,8 +68,18 @@ export interface ServerMetadata {
   description: string;
   version: string;
   tools: string[];
+  /**
+   * Module specifier per tool name (set by discovery).
+   * Defaults to ./servers/<name>/<tool>.js when not provided.
+   */
+  toolModules?: Record<string, string>;
 }
 
+/**
+ * Per-server manifest (src/servers/<name>/manifest.ts) - tools are discovered, not listed
+ */
+export type ServerManifest = Omit<ServerMetadata, 'tools' | 'toolModules'>;
+
 /**
  * Skill metadata for high-level workflows
  */
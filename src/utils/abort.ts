@@ -0,0 +1,62 @@
+/**
+ * Abort Helpers
+ *
+ * Cancellation plumbing for tool calls. Each call gets an AbortSignal that fires
+ * on MCP notifications/cancelled, client disconnect or the per-tool timeout.
+ * These helpers thread it into fetch, googleapis and the Qdrant client.
+ */
+
+import { config } from '../config.js';
+
+/**
+ * Combine a caller signal with a per-request timeout
+ *
+ * @param signal - Tool call signal (optional)
+ * @param ms - Request timeout in milliseconds (default TIMEOUT_DEFAULT)
+ * @returns Signal that aborts on whichever fires first
+ */
+export function withTimeout(signal: AbortSignal | undefined, ms: number = config.timeout.default): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Reject as soon as the signal aborts, for clients that cannot take a signal
+ * (e.g. the Qdrant REST client). The underlying request is not interrupted,
+ * it is bounded by the client's own timeout.
+ *
+ * @example
+ * ```typescript
+ * const info = await abortable(client.getCollection(name), context.signal);
+ * ```
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Check whether an error was caused by an aborted signal (cancel or timeout)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
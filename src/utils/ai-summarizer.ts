@@ -4,10 +4,20 @@
  * Multi-provider AI summarization using native fetch.
  * Supports: openai (default), anthropic, deepseek.
  * DeepSeek uses OpenAI-compatible API format.
+ *
+ * complete() exposes the same providers for other prompts
+ * (e.g. relevance judging in qdrant-rag).
+ *
+ * Summaries are kept in the persistent cache (namespace "summaries"),
+ * keyed by video ID (or content hash) + provider + model + prompt version.
  */
 
+import { createHash } from 'node:crypto';
 import { config } from '../config.js';
 import { logger } from './logger.js';
+import { withTimeout } from './abort.js';
+import { getCache, PersistentCache, type CacheStats } from './persistent-cache.js';
+import { limited } from './rate-limit.js';
 
 const PROVIDER_ENDPOINTS: Record<string, string> = {
   openai: 'https://api.openai.com/v1/chat/completions',
@@ -17,14 +27,43 @@ const PROVIDER_ENDPOINTS: Record<string, string> = {
 
 const SYSTEM_PROMPT = 'You are a concise video summarizer. Summarize the following content in exactly 2 sentences in the same language as the content. Focus on the key topic and main takeaway.';
 
+/**
+ * Changes whenever the prompt changes, so edited prompts don't reuse old summaries
+ */
+function promptVersion(systemPrompt: string): string {
+  return createHash('sha256').update(systemPrompt).digest('hex').substring(0, 12);
+}
+
+/**
+ * Persistent cache of AI summaries
+ */
+export function getSummaryCache(): PersistentCache<string> {
+  return getCache('summaries');
+}
+
+export interface SummarizeOptions {
+  /** Abort signal of the calling tool; an aborted call rethrows instead of falling back */
+  signal?: AbortSignal;
+  /** Stable ID of the content (e.g. `<videoId>:transcript`); defaults to a hash of the text */
+  cacheId?: string;
+  /** Per-call cache hit/miss counters */
+  cacheStats?: CacheStats;
+  /** System prompt for non-video content; defaults to the 2-sentence video summary prompt */
+  systemPrompt?: string;
+  /** Completion token limit (default 200) */
+  maxTokens?: number;
+}
+
 /**
  * Summarize text using configured AI provider
  *
  * @param text - Text to summarize (transcript or description)
  * @param maxInputChars - Max characters of input to send (default 4000)
- * @returns Summary string (2 sentences)
+ * @returns Summary string (2 sentences unless options.systemPrompt says otherwise)
  */
-export async function summarize(text: string, maxInputChars = 4000): Promise<string> {
+export async function summarize(text: string, maxInputChars = 4000, options: SummarizeOptions = {}): Promise<string> {
+  const { signal, cacheId, cacheStats, systemPrompt = SYSTEM_PROMPT, maxTokens = 200 } = options;
+
   if (!text || text.trim().length === 0) {
     return '';
   }
@@ -36,25 +75,71 @@ export async function summarize(text: string, maxInputChars = 4000): Promise<str
 
   const truncatedText = text.length > maxInputChars ? text.substring(0, maxInputChars) + '...' : text;
 
-  try {
-    const provider = config.ai.provider.toLowerCase();
+  const cacheKey = PersistentCache.key(
+    cacheId ?? createHash('sha256').update(truncatedText).digest('hex'),
+    config.ai.provider,
+    config.ai.model,
+    promptVersion(systemPrompt),
+    maxInputChars,
+    maxTokens
+  );
 
-    if (provider === 'anthropic') {
-      return await callAnthropic(truncatedText);
+  try {
+    // Only real AI summaries are cached - fallbacks below never reach the cache
+    return await getSummaryCache().getOrSet(
+      cacheKey,
+      () => complete(systemPrompt, truncatedText, { maxTokens, temperature: 0.3, signal }),
+      summary => summary.length > 0,
+      cacheStats
+    );
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw error;
     }
 
-    // openai and deepseek use the same format
-    return await callOpenAICompatible(truncatedText, provider);
-  } catch (error: any) {
     logger.warn({ error: error.message, provider: config.ai.provider }, 'AI summarization failed, using fallback');
     return truncateFallback(text);
   }
 }
 
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a single system + user prompt against the configured AI provider
+ *
+ * Unlike summarize() there is no fallback: a missing API key or a
+ * provider error is thrown to the caller.
+ *
+ * @returns Trimmed completion text
+ */
+export async function complete(systemPrompt: string, text: string, options: CompletionOptions = {}): Promise<string> {
+  if (!config.ai.apiKey) {
+    throw new Error('AI_API_KEY is not set');
+  }
+
+  const provider = config.ai.provider.toLowerCase();
+  const request = { maxTokens: 200, temperature: 0.3, ...options };
+
+  // Shared LLM limiter (RATE_LIMIT_LLM_CONCURRENT) across all callers
+  return await limited('llm', () => provider === 'anthropic'
+    ? callAnthropic(systemPrompt, text, request)
+    // openai and deepseek use the same format
+    : callOpenAICompatible(systemPrompt, text, provider, request), options.signal);
+}
+
 /**
  * Call OpenAI-compatible API (OpenAI, DeepSeek)
  */
-async function callOpenAICompatible(text: string, provider: string): Promise<string> {
+async function callOpenAICompatible(
+  systemPrompt: string,
+  text: string,
+  provider: string,
+  { maxTokens, temperature, signal }: CompletionOptions
+): Promise<string> {
   const endpoint = PROVIDER_ENDPOINTS[provider] || PROVIDER_ENDPOINTS.openai;
 
   const response = await fetch(endpoint, {
@@ -66,13 +151,13 @@ async function callOpenAICompatible(text: string, provider: string): Promise<str
     body: JSON.stringify({
       model: config.ai.model,
       messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'system', content: systemPrompt },
         { role: 'user', content: text }
       ],
-      max_tokens: 200,
-      temperature: 0.3
+      max_tokens: maxTokens,
+      temperature
     }),
-    signal: AbortSignal.timeout(config.timeout.default)
+    signal: withTimeout(signal)
   });
 
   if (!response.ok) {
@@ -86,7 +171,11 @@ async function callOpenAICompatible(text: string, provider: string): Promise<str
 /**
  * Call Anthropic Messages API
  */
-async function callAnthropic(text: string): Promise<string> {
+async function callAnthropic(
+  systemPrompt: string,
+  text: string,
+  { maxTokens, temperature, signal }: CompletionOptions
+): Promise<string> {
   const response = await fetch(PROVIDER_ENDPOINTS.anthropic, {
     method: 'POST',
     headers: {
@@ -96,13 +185,14 @@ async function callAnthropic(text: string): Promise<string> {
     },
     body: JSON.stringify({
       model: config.ai.model,
-      max_tokens: 200,
-      system: SYSTEM_PROMPT,
+      max_tokens: maxTokens,
+      temperature,
+      system: systemPrompt,
       messages: [
         { role: 'user', content: text }
       ]
     }),
-    signal: AbortSignal.timeout(config.timeout.default)
+    signal: withTimeout(signal)
   });
 
   if (!response.ok) {
@@ -1,10 +1,10 @@
 /**
  * Email Formatter
  *
- * Utilities for formatting video digest emails
+ * Utilities for formatting video and knowledge base digest emails
  */
 
-import { videoDigestTemplate } from './email-templates.js';
+import { knowledgeDigestTemplate, videoDigestTemplate } from './email-templates.js';
 
 /**
  * Video interface matching getLatestVideos output
@@ -82,6 +82,56 @@ export function formatVideoDigestEmail(
   return { subject, htmlBody };
 }
 
+/**
+ * Knowledge base hit interface matching qdrant_rag__search results
+ */
+export interface KnowledgeHit {
+  id: string | number;
+  score: number;
+  content: string;
+}
+
+/**
+ * Format knowledge base digest email from search hits and their summary
+ *
+ * @param query - Search query that produced the hits
+ * @param summary - AI summary of the hits
+ * @param hits - Search results (content is shortened to 300 characters)
+ * @returns Object with subject line and HTML body
+ */
+export function formatKnowledgeDigestEmail(
+  query: string,
+  summary: string,
+  hits: KnowledgeHit[]
+): { subject: string; htmlBody: string } {
+  const hitsContent = hits.map(hit => {
+    const excerpt = hit.content.length > 300 ? hit.content.substring(0, 300) + '...' : hit.content;
+    return `        <div class="hit">
+            <span class="hit-score">#${escapeHtml(String(hit.id))} · score ${hit.score.toFixed(3)}</span><br>
+            ${escapeHtml(excerpt)}
+        </div>
+`;
+  }).join('');
+
+  const dateStr = new Date().toLocaleDateString('pl-PL', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  const htmlBody = knowledgeDigestTemplate
+    .replace('{{QUERY}}', () => escapeHtml(query))
+    .replace('{{SUMMARY}}', () => escapeHtml(summary))
+    .replace('{{TOTAL_HITS}}', hits.length.toString())
+    .replace('{{DATE}}', dateStr)
+    .replace('{{HITS_CONTENT}}', () => hitsContent);
+
+  const subject = `📚 ${query} - ${hits.length} wyników z bazy wiedzy`;
+
+  return { subject, htmlBody };
+}
+
 /**
  * Generate HTML for channels and their videos
  *
@@ -98,3 +98,81 @@ export const videoDigestTemplate = `<!DOCTYPE html>
     </div>
 </body>
 </html>`;
+
+/**
+ * Knowledge base digest email template
+ *
+ * Placeholders:
+ * - {{QUERY}} - Search query (escaped)
+ * - {{SUMMARY}} - AI summary of the hits (escaped)
+ * - {{TOTAL_HITS}} - Number of search hits
+ * - {{DATE}} - Current date (formatted)
+ * - {{HITS_CONTENT}} - Generated HTML for the hits
+ */
+export const knowledgeDigestTemplate = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f5f5f5;
+        }
+        .container {
+            background-color: white;
+            border-radius: 8px;
+            padding: 30px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        h1 {
+            color: #1a56db;
+            margin-bottom: 10px;
+        }
+        .summary {
+            background-color: #f0f0f0;
+            padding: 15px;
+            border-radius: 5px;
+            margin-bottom: 30px;
+        }
+        .hit {
+            margin-bottom: 15px;
+            padding: 10px;
+            background-color: #fafafa;
+            border-left: 4px solid #1a56db;
+            border-radius: 5px;
+        }
+        .hit-score {
+            color: #666;
+            font-size: 0.9em;
+        }
+        .footer {
+            margin-top: 30px;
+            padding-top: 20px;
+            border-top: 1px solid #ddd;
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>📚 Baza wiedzy: {{QUERY}}</h1>
+        <div class="summary">
+            <strong>Podsumowanie:</strong> {{SUMMARY}}<br>
+            <strong>Wyników:</strong> {{TOTAL_HITS}}<br>
+            <strong>Data:</strong> {{DATE}}
+        </div>
+        {{HITS_CONTENT}}
+        <div class="footer">
+            Automatyczne powiadomienie z serwera MCP
+        </div>
+    </div>
+</body>
+</html>`;
@@ -0,0 +1,81 @@
+/**
+ * In-memory Event Store
+ *
+ * Resumability support for stateful Streamable HTTP sessions.
+ * Every message sent on an SSE stream is stored with an event ID so a client
+ * reconnecting with `Last-Event-ID` can replay what it missed.
+ *
+ * One store is created per session and dropped together with it.
+ * The store is bounded - oldest events are evicted first.
+ */
+
+import type {
+  EventStore,
+  EventId,
+  StreamId
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+export class InMemoryEventStore implements EventStore {
+  // Map preserves insertion order, which is also chronological order
+  private events = new Map<EventId, StoredEvent>();
+  private sequence = 0;
+
+  /**
+   * @param maxEvents - Maximum number of events kept before the oldest are evicted
+   */
+  constructor(private maxEvents = 1000) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${Date.now().toString(36)}-${(++this.sequence).toString(36)}`;
+    this.events.set(eventId, { streamId, message });
+
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value as EventId;
+      this.events.delete(oldest);
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+
+      if (found && event.streamId === lastEvent.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+
+  /**
+   * Number of events currently stored
+   */
+  get size(): number {
+    return this.events.size;
+  }
+}
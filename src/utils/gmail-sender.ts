@@ -17,12 +17,14 @@ import { logger } from './logger.js';
  * @param to - Recipient email address
  * @param subject - Email subject
  * @param htmlBody - HTML email body
+ * @param signal - Optional abort signal of the calling tool
  * @returns Message ID from Gmail API
  */
 export async function sendGmail(
   to: string,
   subject: string,
-  htmlBody: string
+  htmlBody: string,
+  signal?: AbortSignal
 ): Promise<string> {
   const gmail = getGmailClient();
 
@@ -53,7 +55,7 @@ export async function sendGmail(
     requestBody: {
       raw: encodedMessage
     }
-  });
+  }, { signal });
 
   const messageId = response.data.id || 'unknown';
   logger.info({ messageId, to }, 'Email sent successfully');
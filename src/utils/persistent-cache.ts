@@ -0,0 +1,245 @@
+/**
+ * Persistent Cache
+ *
+ * Content-addressed on-disk cache for expensive results (transcripts,
+ * AI summaries). Each namespace is a directory under CACHE_DIR with one
+ * JSON file per entry, named by the SHA-256 of the key parts.
+ *
+ * Entries expire after CACHE_TTL_HOURS. When a namespace grows past
+ * CACHE_MAX_SIZE_MB the oldest entries are evicted. Disk errors are
+ * logged and treated as misses, never thrown.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { config } from '../config.js';
+import { logger } from './logger.js';
+
+export interface PersistentCacheOptions {
+  /** Root directory; each namespace gets a subdirectory */
+  directory: string;
+  /** Entry lifetime in milliseconds (0 = never expires) */
+  ttlMs: number;
+  /** Maximum bytes on disk per namespace (0 = unlimited) */
+  maxBytes: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry<T> {
+  storedAt: number;
+  value: T;
+}
+
+export class PersistentCache<T> {
+  hits = 0;
+  misses = 0;
+
+  private readonly directory: string;
+  /** Key → { size, storedAt } of entries on disk, loaded on first write */
+  private index: Map<string, { size: number; storedAt: number }> | null = null;
+
+  constructor(
+    readonly namespace: string,
+    private readonly options: PersistentCacheOptions
+  ) {
+    this.directory = join(options.directory, namespace);
+  }
+
+  /**
+   * Cache key from its parts (e.g. videoId, provider, model, prompt hash)
+   */
+  static key(...parts: Array<string | number>): string {
+    return createHash('sha256').update(parts.join('\0')).digest('hex');
+  }
+
+  /**
+   * @param stats - Per-call counters, incremented next to the cache-wide ones
+   */
+  async get(key: string, stats?: CacheStats): Promise<T | undefined> {
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await readFile(this.path(key), 'utf-8'));
+
+      if (this.isExpired(entry.storedAt)) {
+        await this.remove(key);
+      } else {
+        this.countHit(stats);
+        return entry.value;
+      }
+    } catch {
+      // Not on disk (or unreadable) - treat as miss
+    }
+
+    this.countMiss(stats);
+    return undefined;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const entry: CacheEntry<T> = { storedAt: Date.now(), value };
+    const data = JSON.stringify(entry);
+
+    try {
+      const index = await this.loadIndex();
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(this.path(key), data);
+
+      index.set(key, { size: Buffer.byteLength(data), storedAt: entry.storedAt });
+      await this.evict(index);
+    } catch (error: any) {
+      logger.warn({ error: error.message, namespace: this.namespace }, 'Failed to write cache entry');
+    }
+  }
+
+  /**
+   * Return the cached value or compute, store and return it.
+   * Values rejected by shouldCache (e.g. fallbacks) are returned but not stored.
+   * Pass `stats` to count this call's hits and misses (see get()).
+   */
+  async getOrSet(
+    key: string,
+    compute: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true,
+    stats?: CacheStats
+  ): Promise<T> {
+    const cached = await this.get(key, stats);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const value = await compute();
+    if (shouldCache(value)) {
+      await this.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Cache-wide counters since startup. Overlapping tool calls share them,
+   * so per-call numbers come from the `stats` argument of get()/getOrSet().
+   */
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  protected countHit(stats?: CacheStats) {
+    this.hits++;
+    if (stats) stats.hits++;
+  }
+
+  protected countMiss(stats?: CacheStats) {
+    this.misses++;
+    if (stats) stats.misses++;
+  }
+
+  private path(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  private isExpired(storedAt: number): boolean {
+    return this.options.ttlMs > 0 && Date.now() - storedAt > this.options.ttlMs;
+  }
+
+  private async remove(key: string) {
+    this.index?.delete(key);
+    await rm(this.path(key), { force: true });
+  }
+
+  private async loadIndex() {
+    if (this.index) return this.index;
+
+    const index = new Map<string, { size: number; storedAt: number }>();
+    try {
+      for (const file of await readdir(this.directory)) {
+        if (!file.endsWith('.json')) continue;
+        const info = await stat(join(this.directory, file));
+        index.set(file.slice(0, -'.json'.length), { size: info.size, storedAt: info.mtimeMs });
+      }
+    } catch {
+      // Directory doesn't exist yet
+    }
+
+    this.index = index;
+    return index;
+  }
+
+  /**
+   * Drop expired entries, then the oldest ones until the namespace fits maxBytes
+   */
+  private async evict(index: Map<string, { size: number; storedAt: number }>) {
+    let total = 0;
+    const live: Array<[string, { size: number; storedAt: number }]> = [];
+
+    for (const [key, info] of index) {
+      if (this.isExpired(info.storedAt)) {
+        await this.remove(key);
+      } else {
+        total += info.size;
+        live.push([key, info]);
+      }
+    }
+
+    if (this.options.maxBytes <= 0 || total <= this.options.maxBytes) return;
+
+    live.sort((a, b) => a[1].storedAt - b[1].storedAt);
+    let evicted = 0;
+
+    for (const [key, info] of live) {
+      if (total <= this.options.maxBytes) break;
+      await this.remove(key);
+      total -= info.size;
+      evicted++;
+    }
+
+    logger.debug({ namespace: this.namespace, evicted, bytes: total }, 'Evicted cache entries over size limit');
+  }
+}
+
+/**
+ * Cache that never stores anything (CACHE_ENABLED=false)
+ */
+class DisabledCache<T> extends PersistentCache<T> {
+  constructor(namespace: string) {
+    super(namespace, { directory: '', ttlMs: 0, maxBytes: 0 });
+  }
+
+  async get(_key: string, stats?: CacheStats): Promise<T | undefined> {
+    this.countMiss(stats);
+    return undefined;
+  }
+
+  async set(): Promise<void> {}
+}
+
+const caches = new Map<string, PersistentCache<unknown>>();
+
+/**
+ * Shared cache for a namespace, configured through CACHE_* environment variables.
+ * With CACHE_ENABLED=false it stores nothing and every lookup is a miss.
+ */
+export function getCache<T>(namespace: string): PersistentCache<T> {
+  let cache = caches.get(namespace);
+
+  if (!cache) {
+    cache = config.cache.enabled
+      ? new PersistentCache(namespace, {
+        directory: config.cache.dir,
+        ttlMs: config.cache.ttlHours * 60 * 60 * 1000,
+        maxBytes: config.cache.maxSizeMb * 1024 * 1024
+      })
+      : new DisabledCache(namespace);
+    caches.set(namespace, cache);
+  }
+
+  return cache as PersistentCache<T>;
+}
+
+/**
+ * Fresh per-call hit/miss counters
+ */
+export function emptyCacheStats(): CacheStats {
+  return { hits: 0, misses: 0 };
+}
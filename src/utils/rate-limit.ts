@@ -0,0 +1,88 @@
+/**
+ * Rate Limiting
+ *
+ * Shared Bottleneck limiters, one per external service, so concurrent
+ * tool calls (and concurrent channels within one call) stay within the
+ * same limits:
+ * - `youtube` - YouTube Data API (RATE_LIMIT_CONCURRENT / RATE_LIMIT_MIN_TIME)
+ * - `feeds` - YouTube channel Atom feeds (RATE_LIMIT_CONCURRENT / RATE_LIMIT_MIN_TIME)
+ * - `transcripts` - caption downloads (RATE_LIMIT_TRANSCRIPT_CONCURRENT)
+ * - `llm` - AI provider completions (RATE_LIMIT_LLM_CONCURRENT)
+ */
+
+import Bottleneck from 'bottleneck';
+import { config } from '../config.js';
+
+export type LimiterName = 'youtube' | 'feeds' | 'transcripts' | 'llm';
+
+const LIMITER_OPTIONS: Record<LimiterName, () => Bottleneck.ConstructorOptions> = {
+  youtube: () => ({
+    maxConcurrent: config.rateLimit.maxConcurrent,
+    minTime: config.rateLimit.minTime
+  }),
+  feeds: () => ({
+    maxConcurrent: config.rateLimit.maxConcurrent,
+    minTime: config.rateLimit.minTime
+  }),
+  transcripts: () => ({
+    maxConcurrent: config.rateLimit.transcriptConcurrent,
+    minTime: config.rateLimit.minTime
+  }),
+  llm: () => ({
+    maxConcurrent: config.rateLimit.llmConcurrent
+  })
+};
+
+const limiters = new Map<LimiterName, Bottleneck>();
+
+/**
+ * Process-wide limiter for a service
+ */
+export function getLimiter(name: LimiterName): Bottleneck {
+  let limiter = limiters.get(name);
+
+  if (!limiter) {
+    limiter = new Bottleneck(LIMITER_OPTIONS[name]());
+    limiters.set(name, limiter);
+  }
+
+  return limiter;
+}
+
+/**
+ * Run a task through a service limiter.
+ * Tasks whose caller was aborted while queued fail without running.
+ *
+ * @example
+ * ```typescript
+ * const response = await limited('youtube', () => youtube.videos.list(params, { signal }), signal);
+ * ```
+ */
+export function limited<T>(name: LimiterName, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return getLimiter(name).schedule(() => {
+    signal?.throwIfAborted();
+    return task();
+  });
+}
+
+/**
+ * Run worker over items with at most `concurrency` in flight, preserving result order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, run));
+  return results;
+}
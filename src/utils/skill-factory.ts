@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { createTool, type Tool, type ToolContext } from './tool-factory.js';
+import { logger } from './logger.js';
+import { ToolError, ToolValidationError, type SkillMetadata } from '../types/index.js';
+
+/**
+ * Shared state of a running skill - validated input plus results of completed steps
+ */
+export interface SkillState<TInput> {
+  input: TInput;
+  /** Step results by step id; steps cast them to the shape they expect */
+  results: Record<string, unknown>;
+}
+
+interface SkillStepBase<TInput> {
+  /** Key under which the step result is stored in state.results */
+  id: string;
+  description: string;
+  /** Skip the step when this returns false */
+  when?: (state: SkillState<TInput>) => boolean;
+}
+
+/**
+ * Step that calls an existing MCP tool
+ */
+export interface SkillToolStep<TInput> extends SkillStepBase<TInput> {
+  tool: string;
+  args: (state: SkillState<TInput>) => Record<string, unknown>;
+}
+
+/**
+ * Step that runs local glue code (summarize, format, send)
+ */
+export interface SkillRunStep<TInput> extends SkillStepBase<TInput> {
+  run: (state: SkillState<TInput>, context: ToolContext) => Promise<unknown>;
+}
+
+export type SkillStep<TInput> = SkillToolStep<TInput> | SkillRunStep<TInput>;
+
+/**
+ * Configuration for defining a skill
+ */
+export interface SkillConfig<TInput extends z.ZodType, TOutput extends z.ZodType> extends SkillMetadata {
+  input: TInput;
+  output: TOutput;
+  timeout?: number;
+  steps: SkillStep<z.infer<TInput>>[];
+  /** Build the skill output from the final state */
+  result: (state: SkillState<z.infer<TInput>>) => z.infer<TOutput>;
+}
+
+/**
+ * Step summary published in prompts and logs
+ */
+export interface SkillStepInfo {
+  id: string;
+  description: string;
+  tool?: string;
+}
+
+/**
+ * A skill is a composite tool with its workflow metadata attached
+ */
+export type Skill<TInput extends z.ZodType, TOutput extends z.ZodType> = Tool<TInput, TOutput> & {
+  skill: SkillMetadata;
+  steps: SkillStepInfo[];
+};
+
+/**
+ * Run a tool step. Arguments rejected by the called tool were built by the
+ * skill, not sent by the client, so they fail the skill as a plain ToolError
+ * instead of surfacing as the client's invalid params.
+ */
+async function callStepTool<TInput>(
+  skillToolName: string,
+  step: SkillToolStep<TInput>,
+  state: SkillState<TInput>,
+  context: ToolContext
+): Promise<unknown> {
+  try {
+    return await context.callTool(step.tool, step.args(state));
+  } catch (error) {
+    if (error instanceof ToolValidationError && error.phase === 'input') {
+      throw new ToolError(skillToolName, `Step "${step.id}" passed invalid arguments to ${error.tool}: ${error.message}`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Defines a skill: a declarative multi-step workflow over existing tools,
+ * exposed as the composite tool `skills__<name>`.
+ *
+ * Steps run in order. Each result is stored under `state.results[step.id]`
+ * so later steps can use it. Progress is reported after every step.
+ *
+ * @example
+ * ```typescript
+ * export const searchAndSummarize = defineSkill({
+ *   name: 'search-and-summarize',
+ *   description: 'Search the knowledge base and summarize hits',
+ *   requiredServers: ['qdrant-rag'],
+ *   examples: ['Summarize what we know about authentication'],
+ *   input: z.object({ query: z.string() }),
+ *   output: z.object({ summary: z.string() }),
+ *   steps: [
+ *     { id: 'search', description: 'Search', tool: 'qdrant_rag__search', args: ({ input }) => ({ query: input.query }) },
+ *     { id: 'summary', description: 'Summarize', run: async ({ results }) => summarize(joinHits(results.search as SearchResult)) }
+ *   ],
+ *   result: ({ results }) => ({ summary: results.summary as string })
+ * });
+ * ```
+ */
+export function defineSkill<TInput extends z.ZodType, TOutput extends z.ZodType>(
+  config: SkillConfig<TInput, TOutput>
+): Skill<TInput, TOutput> {
+  const { name, description, requiredServers, examples, input, output, timeout, steps, result } = config;
+  const toolName = `skills__${name.replace(/-/g, '_')}`;
+
+  const tool = createTool({
+    name: toolName,
+    description,
+    input,
+    output,
+    timeout,
+    execute: async (validatedInput, context) => {
+      const state: SkillState<z.infer<TInput>> = { input: validatedInput, results: {} };
+
+      for (const [index, step] of steps.entries()) {
+        context.signal.throwIfAborted();
+
+        if (step.when && !step.when(state)) {
+          logger.debug({ skill: name, step: step.id }, 'Skill step skipped');
+        } else if ('tool' in step) {
+          logger.debug({ skill: name, step: step.id, tool: step.tool }, 'Skill step calling tool');
+          state.results[step.id] = await callStepTool(toolName, step, state, context);
+        } else {
+          logger.debug({ skill: name, step: step.id }, 'Skill step running');
+          state.results[step.id] = await step.run(state, context);
+        }
+
+        await context.reportProgress(index + 1, steps.length, step.description);
+      }
+
+      return result(state);
+    }
+  });
+
+  return {
+    ...tool,
+    skill: { name, description, requiredServers, examples },
+    steps: steps.map(step => ({
+      id: step.id,
+      description: step.description,
+      ...('tool' in step && { tool: step.tool })
+    }))
+  };
+}
@@ -1,15 +1,61 @@
 import { z } from 'zod';
 import { logger } from './logger.js';
-import { ToolError } from '../types/index.js';
+import { ToolError, ToolValidationError } from '../types/index.js';
+
+/**
+ * Per-call context passed to tool implementations
+ */
+export interface ToolContext {
+  /**
+   * Report progress of a long-running tool.
+   * Forwarded as MCP notifications/progress when the caller sent a progressToken,
+   * otherwise a no-op.
+   */
+  reportProgress: (current: number, total?: number, message?: string) => Promise<void>;
+
+  /**
+   * Aborted when the client cancels the request, disconnects,
+   * or the tool's timeout runs out. Pass it down to fetch/googleapis calls.
+   */
+  signal: AbortSignal;
+
+  /**
+   * Call another registered tool by its MCP name (e.g. qdrant_rag__search).
+   * Provided by the MCP server; used by composite tools such as skills.
+   */
+  callTool: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+}
+
+/**
+ * Build a complete tool context, filling missing callbacks with no-ops
+ */
+export function createToolContext(context: Partial<ToolContext> = {}): ToolContext {
+  return {
+    reportProgress: context.reportProgress ?? (async () => {}),
+    signal: context.signal ?? new AbortController().signal,
+    callTool: context.callTool ?? (async (name) => {
+      throw new Error(`Cannot call ${name}: callTool is only available inside the MCP server`);
+    })
+  };
+}
 
 /**
  * Configuration for creating a tool
  */
 export interface ToolConfig<TInput extends z.ZodType, TOutput extends z.ZodType> {
   name: string;
+  /**
+   * Description published in tools/list (defaults to "<name> tool")
+   */
+  description?: string;
   input: TInput;
   output: TOutput;
-  execute: (input: z.infer<TInput>) => Promise<z.infer<TOutput>>;
+  /**
+   * Maximum execution time in milliseconds when called through the MCP server
+   * (defaults to TIMEOUT_DEFAULT)
+   */
+  timeout?: number;
+  execute: (input: z.infer<TInput>, context: ToolContext) => Promise<z.infer<TOutput>>;
 }
 
 /**
@@ -17,10 +63,12 @@ export interface ToolConfig<TInput extends z.ZodType, TOutput extends z.ZodType>
  */
 export interface Tool<TInput extends z.ZodType, TOutput extends z.ZodType> {
   name: string;
+  description?: string;
   inputSchema: TInput;
   outputSchema: TOutput;
-  execute: (input: z.infer<TInput>) => Promise<z.infer<TOutput>>;
-  call: (input: unknown) => Promise<z.infer<TOutput>>;
+  timeout?: number;
+  execute: (input: z.infer<TInput>, context: ToolContext) => Promise<z.infer<TOutput>>;
+  call: (input: unknown, context?: Partial<ToolContext>) => Promise<z.infer<TOutput>>;
 }
 
 /**
@@ -32,7 +80,8 @@ export interface Tool<TInput extends z.ZodType, TOutput extends z.ZodType> {
  *   name: 'server__my_tool',
  *   input: z.object({ value: z.string() }),
  *   output: z.object({ result: z.string() }),
- *   execute: async (input) => {
+ *   execute: async (input, context) => {
+ *     await context.reportProgress(1, 1, 'Uppercasing');
  *     return { result: input.value.toUpperCase() };
  *   }
  * });
@@ -43,10 +92,11 @@ export interface Tool<TInput extends z.ZodType, TOutput extends z.ZodType> {
 export function createTool<TInput extends z.ZodType, TOutput extends z.ZodType>(
   config: ToolConfig<TInput, TOutput>
 ): Tool<TInput, TOutput> {
-  const { name, input, output, execute } = config;
+  const { name, description, input, output, timeout, execute } = config;
 
-  const call = async (rawInput: unknown): Promise<z.infer<TOutput>> => {
+  const call = async (rawInput: unknown, context?: Partial<ToolContext>): Promise<z.infer<TOutput>> => {
     const startTime = Date.now();
+    let phase: 'input' | 'execute' | 'output' = 'input';
 
     try {
       // Validate input
@@ -55,9 +105,11 @@ export function createTool<TInput extends z.ZodType, TOutput extends z.ZodType>(
       logger.debug({ tool: name, input: validatedInput }, 'Tool execution started');
 
       // Execute the tool
-      const result = await execute(validatedInput);
+      phase = 'execute';
+      const result = await execute(validatedInput, createToolContext(context));
 
       // Validate output
+      phase = 'output';
       const validatedOutput = output.parse(result);
 
       const duration = Date.now() - startTime;
@@ -67,13 +119,13 @@ export function createTool<TInput extends z.ZodType, TOutput extends z.ZodType>(
     } catch (error) {
       const duration = Date.now() - startTime;
 
-      if (error instanceof z.ZodError) {
-        logger.error({ tool: name, error: error.errors, duration }, 'Tool validation failed');
-        throw new ToolError(
+      if (error instanceof z.ZodError && phase !== 'execute') {
+        logger.error({ tool: name, phase, error: error.errors, duration }, 'Tool validation failed');
+        throw new ToolValidationError(
           name,
-          `Validation failed: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
-          error,
-          false
+          phase,
+          error.errors.map(e => ({ path: e.path.join('.'), message: e.message, code: e.code })),
+          error
         );
       }
 
@@ -94,8 +146,10 @@ export function createTool<TInput extends z.ZodType, TOutput extends z.ZodType>(
 
   return {
     name,
+    description,
     inputSchema: input,
     outputSchema: output,
+    timeout,
     execute,
     call
   };
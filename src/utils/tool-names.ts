@@ -0,0 +1,29 @@
+/**
+ * MCP tool naming helpers
+ *
+ * MCP tool names are `<server>__<tool>` in snake_case,
+ * e.g. qdrant-rag + listCollections → qdrant_rag__list_collections
+ */
+
+/**
+ * Convert camelCase to snake_case for MCP tool names
+ * Example: getLatestVideos → get_latest_videos
+ */
+export function camelToSnake(str: string): string {
+  return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+/**
+ * Normalize server name for MCP tool name prefix
+ * Converts kebab-case to snake_case: qdrant-rag → qdrant_rag
+ */
+export function normalizeServerName(name: string): string {
+  return name.replace(/-/g, '_');
+}
+
+/**
+ * Build the MCP tool name for a server tool
+ */
+export function toMcpToolName(serverName: string, toolName: string): string {
+  return `${normalizeServerName(serverName)}__${camelToSnake(toolName)}`;
+}
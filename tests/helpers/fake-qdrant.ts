@@ -0,0 +1,145 @@
+/**
+ * In-memory Qdrant REST stand-in for tool tests.
+ *
+ * Keeps upserted points per collection, applies `must` filters made of
+ * match/range conditions to deletes, and answers queries with the hits
+ * a test sets through `queryHits` (their score doubles as dense similarity
+ * for score_threshold). Every request is recorded.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FakePoint {
+  id: string | number;
+  vector?: unknown;
+  payload: Record<string, unknown>;
+}
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+type Condition = { key: string; match?: { value: unknown }; range?: { gt?: number; gte?: number; lt?: number; lte?: number } };
+
+function matchesCondition(point: FakePoint, condition: Condition): boolean {
+  const value = point.payload[condition.key];
+  if (condition.match) return value === condition.match.value;
+  if (condition.range && typeof value === 'number') {
+    const { gt, gte, lt, lte } = condition.range;
+    return (gt === undefined || value > gt) && (gte === undefined || value >= gte) &&
+      (lt === undefined || value < lt) && (lte === undefined || value <= lte);
+  }
+  return false;
+}
+
+function matchesFilter(point: FakePoint, filter: { must?: Condition[] } | undefined): boolean {
+  return (filter?.must ?? []).every(condition => matchesCondition(point, condition));
+}
+
+export class FakeQdrant {
+  readonly collections = new Map<string, Map<string, FakePoint>>();
+  readonly requests: FakeRequest[] = [];
+  /** Hits returned by points/query, per collection */
+  readonly queryHits = new Map<string, Array<{ id: string | number; score: number; payload: Record<string, unknown> }>>();
+  /** Vector layout reported by GET /collections/:name (GET /collections lists every collection touched) */
+  vectors: Record<string, unknown> = { size: 384, distance: 'Cosine' };
+  sparseVectors: Record<string, unknown> | undefined;
+
+  private server: Server | null = null;
+  url = '';
+
+  points(collection: string): FakePoint[] {
+    return Array.from(this.collections.get(collection)?.values() ?? []);
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => raw += chunk);
+      req.on('end', () => {
+        const path = new URL(req.url || '', 'http://localhost').pathname;
+        const body = raw ? JSON.parse(raw) : undefined;
+        this.requests.push({ method: req.method || '', path, body });
+
+        const result = this.handle(req.method || '', path, body);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ result, status: 'ok', time: 0 }));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server?.close(() => resolve()) ?? resolve());
+  }
+
+  /**
+   * Fused (prefetch) and sparse queries return every hit; dense queries
+   * only those with score >= score_threshold
+   */
+  private query(collection: string, body: any) {
+    const sparse = Array.isArray(body.query?.indices);
+    const threshold = !body.prefetch && !sparse ? body.score_threshold ?? -Infinity : -Infinity;
+    const hits = (this.queryHits.get(collection) ?? []).filter(hit => hit.score >= threshold);
+    return hits.slice(0, body.limit ?? 10).map(hit => body.with_payload === false ? { id: hit.id, score: hit.score } : hit);
+  }
+
+  private handle(method: string, path: string, body: any): unknown {
+    if (method === 'GET' && path === '/collections') {
+      return { collections: Array.from(this.collections.keys(), name => ({ name })) };
+    }
+
+    // Server info, requested by the client's version check
+    if (!path.startsWith('/collections/')) {
+      return { title: 'fake-qdrant', version: '1.16.0' };
+    }
+
+    const [, , collection, ...rest] = path.split('/');
+    const action = rest.join('/');
+    const points = this.collections.get(collection) ?? new Map<string, FakePoint>();
+    this.collections.set(collection, points);
+
+    if (method === 'GET' && action === '') {
+      return {
+        status: 'green',
+        optimizer_status: 'ok',
+        points_count: points.size,
+        segments_count: 1,
+        payload_schema: {},
+        config: { params: { vectors: this.vectors, ...(this.sparseVectors && { sparse_vectors: this.sparseVectors }) } }
+      };
+    }
+
+    if (method === 'PUT' && action === 'points') {
+      for (const point of body.points as FakePoint[]) {
+        points.set(String(point.id), point);
+      }
+      return { operation_id: 1, status: 'completed' };
+    }
+
+    if (action === 'points/delete') {
+      for (const [id, point] of points) {
+        if (body.points ? body.points.map(String).includes(id) : matchesFilter(point, body.filter)) {
+          points.delete(id);
+        }
+      }
+      return { operation_id: 2, status: 'completed' };
+    }
+
+    if (action === 'points/query') {
+      return { points: this.query(collection, body) };
+    }
+
+    if (action === 'points/query/batch') {
+      return body.searches.map((search: any) => ({ points: this.query(collection, search) }));
+    }
+
+    return {};
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('Abort helpers', () => {
+  describe('abortable()', () => {
+    it('should resolve when the signal never fires', async () => {
+      const { abortable } = await import('../../src/utils/abort.js');
+      const controller = new AbortController();
+      const result = await abortable(Promise.resolve(42), controller.signal);
+      assert.equal(result, 42);
+    });
+
+    it('should reject with the abort reason when cancelled', async () => {
+      const { abortable, isAbortError } = await import('../../src/utils/abort.js');
+      const controller = new AbortController();
+      const pending = abortable(new Promise(() => {}), controller.signal);
+
+      controller.abort();
+
+      await assert.rejects(pending, (error) => isAbortError(error));
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const { abortable } = await import('../../src/utils/abort.js');
+      await assert.rejects(abortable(Promise.resolve(1), AbortSignal.abort()));
+    });
+  });
+
+  describe('withTimeout()', () => {
+    it('should abort after the timeout', async () => {
+      const { withTimeout, isAbortError } = await import('../../src/utils/abort.js');
+      const signal = withTimeout(undefined, 5);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.ok(signal.aborted);
+      assert.ok(isAbortError(signal.reason));
+    });
+
+    it('should follow the caller signal', async () => {
+      const { withTimeout } = await import('../../src/utils/abort.js');
+      const controller = new AbortController();
+      const signal = withTimeout(controller.signal, 60000);
+      controller.abort();
+      assert.ok(signal.aborted);
+    });
+  });
+});
@@ -1,6 +1,10 @@
-import { describe, it } from 'node:test';
+import { describe, it, afterEach } from 'node:test';
 import assert from 'node:assert/strict';
 
+process.env.CACHE_ENABLED = 'false';
+
+const originalFetch = globalThis.fetch;
+
 describe('AI Summarizer', () => {
   describe('summarize() without API key (fallback mode)', () => {
     it('should return empty string for empty input', async () => {
@@ -33,4 +37,33 @@ describe('AI Summarizer', () => {
       assert.ok(result.length <= 210, 'Should be truncated to ~200 chars');
     });
   });
+
+  describe('summarize() with a provider', () => {
+    afterEach(async () => {
+      const { config } = await import('../../src/config.js');
+      globalThis.fetch = originalFetch;
+      config.ai.apiKey = '';
+    });
+
+    it('should send options.systemPrompt and maxTokens instead of the video prompt', async () => {
+      const { summarize } = await import('../../src/utils/ai-summarizer.js');
+      const { config } = await import('../../src/config.js');
+      const requests: Array<{ messages: Array<{ content: string }>; max_tokens: number }> = [];
+
+      config.ai.apiKey = 'test-key';
+      config.ai.provider = 'openai';
+      globalThis.fetch = (async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(init.body as string));
+        return new Response(JSON.stringify({ choices: [{ message: { content: 'Digest.' } }] }));
+      }) as typeof fetch;
+
+      assert.equal(await summarize('Passages', 8000, { systemPrompt: 'Digest these passages.', maxTokens: 400 }), 'Digest.');
+      await summarize('Video transcript');
+
+      assert.equal(requests[0].messages[0].content, 'Digest these passages.');
+      assert.equal(requests[0].max_tokens, 400);
+      assert.match(requests[1].messages[0].content, /video summarizer/);
+      assert.equal(requests[1].max_tokens, 200);
+    });
+  });
 });
@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('Server discovery', () => {
+  it('should discover built-in servers from manifests', async () => {
+    const { discoverServers } = await import('../../src/servers/discovery.js');
+    const { servers, problems } = await discoverServers();
+
+    assert.deepEqual(problems, []);
+
+    const youtube = servers.find(s => s.name === 'youtube');
+    assert.ok(youtube);
+    assert.equal(youtube.version, '2.0.0');
+    assert.ok(youtube.tools.includes('getLatestVideos'));
+
+    const qdrant = servers.find(s => s.name === 'qdrant-rag');
+    assert.ok(qdrant);
+    assert.ok(qdrant.tools.includes('search'));
+    assert.ok(qdrant.tools.includes('listCollections'));
+    assert.ok(qdrant.toolModules?.search.endsWith('search.ts'));
+  });
+
+  it('should not treat helper exports as tools', async () => {
+    const { isToolExport } = await import('../../src/servers/discovery.js');
+    const { search } = await import('../../src/servers/qdrant-rag/search.js');
+    const { channelIdToUploadsPlaylistId } = await import('../../src/servers/youtube/utils.js');
+
+    assert.equal(isToolExport(search), true);
+    assert.equal(isToolExport(channelIdToUploadsPlaylistId), false);
+    assert.equal(isToolExport({ name: 'x' }), false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('InMemoryEventStore', () => {
+  const message = (id: number) => ({ jsonrpc: '2.0' as const, method: 'notifications/message', params: { id } });
+
+  it('should replay only events after Last-Event-ID on the same stream', async () => {
+    const { InMemoryEventStore } = await import('../../src/utils/event-store.js');
+    const store = new InMemoryEventStore();
+
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('stream-b', message(2));
+    await store.storeEvent('stream-a', message(3));
+
+    const replayed: unknown[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, msg) => { replayed.push(msg); }
+    });
+
+    assert.equal(streamId, 'stream-a');
+    assert.deepEqual(replayed, [message(3)]);
+  });
+
+  it('should return empty stream ID for unknown event', async () => {
+    const { InMemoryEventStore } = await import('../../src/utils/event-store.js');
+    const store = new InMemoryEventStore();
+    const streamId = await store.replayEventsAfter('missing', { send: async () => {} });
+    assert.equal(streamId, '');
+  });
+
+  it('should evict oldest events beyond maxEvents', async () => {
+    const { InMemoryEventStore } = await import('../../src/utils/event-store.js');
+    const store = new InMemoryEventStore(2);
+
+    const first = await store.storeEvent('s', message(1));
+    await store.storeEvent('s', message(2));
+    await store.storeEvent('s', message(3));
+
+    assert.equal(store.size, 2);
+    assert.equal(await store.getStreamIdForEventId(first), undefined);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Tool-shaped module without depending on zod (the temp dir has no node_modules)
+ */
+const toolSource = (description: string) => `
+export const ping = {
+  name: 'acme__ping',
+  description: '${description}',
+  inputSchema: {},
+  outputSchema: {},
+  execute: async () => ({}),
+  call: async () => ({})
+};
+`;
+
+describe('Tool hot reload', () => {
+  let dir: string;
+  let toolPath: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devrk-hot-reload-'));
+    await mkdir(join(dir, 'acme'));
+    await writeFile(join(dir, 'acme', 'manifest.ts'), `export const manifest = { name: 'acme', description: 'Test server', version: '1.0.0' };\n`);
+    toolPath = join(dir, 'acme', 'ping.ts');
+    await writeFile(toolPath, toolSource('first version'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should re-import an edited tool module on the next discovery', async () => {
+    const { discoverServers } = await import('../../src/servers/discovery.js');
+    const { watchServers } = await import('../../src/servers/hot-reload.js');
+
+    const discoverPing = async () => {
+      const { servers } = await discoverServers(dir);
+      const module = await import(servers[0].toolModules!.ping);
+      return module.ping.description;
+    };
+
+    assert.equal(await discoverPing(), 'first version');
+
+    let stop = () => {};
+    const changed = new Promise<string[]>(resolve => {
+      stop = watchServers(async changedFiles => resolve(changedFiles), 50, dir);
+    });
+
+    try {
+      await writeFile(toolPath, toolSource('second version'));
+      assert.deepEqual(await changed, [toolPath]);
+      assert.equal(await discoverPing(), 'second version');
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { z } from 'zod';
+import { FakeQdrant } from '../helpers/fake-qdrant.js';
+
+const ROOT_DIR = fileURLToPath(new URL('../..', import.meta.url));
+
+/**
+ * The parts of a listed JSON Schema object the assertions below rely on
+ */
+const ObjectSchema = z.object({
+  type: z.literal('object'),
+  required: z.array(z.string()),
+  properties: z.record(z.object({ type: z.string().optional() }).passthrough())
+});
+
+/**
+ * Start src/index.ts over stdio in a child process, as desktop MCP clients do
+ */
+async function connectStdio(env: Record<string, string> = {}): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', 'src/index.ts', '--transport', 'stdio'],
+    cwd: ROOT_DIR,
+    env: { ...process.env, LOG_LEVEL: 'error', HOT_RELOAD: 'false', ...env } as Record<string, string>,
+    stderr: 'ignore'
+  });
+
+  const client = new Client({ name: 'devrk-mcp-test', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+describe('MCP server over stdio', { timeout: 60_000 }, () => {
+  const qdrant = new FakeQdrant();
+  let client: Client;
+
+  before(async () => {
+    await qdrant.start();
+    qdrant.collections.set('docs', new Map([['1', { id: '1', payload: { content: 'hello' } }]]));
+    client = await connectStdio({ QDRANT_URL: qdrant.url });
+  });
+
+  after(async () => {
+    await client.close();
+    await qdrant.stop();
+  });
+
+  it('should answer initialize and list the built-in tools', async () => {
+    assert.equal(client.getServerVersion()?.name, 'devrk-mcp');
+
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    assert.ok(names.includes('youtube__get_latest_videos'));
+    assert.ok(names.includes('qdrant_rag__search'));
+  });
+
+  it('should reject calls to unknown tools with InvalidParams', async () => {
+    await assert.rejects(client.callTool({ name: 'nope__missing', arguments: {} }), /Unknown tool: nope__missing/);
+  });
+
+  it('should return structuredContent matching the outputSchema from tools/list', async () => {
+    const { tools } = await client.listTools();
+    const outputSchema = ObjectSchema.parse(tools.find(tool => tool.name === 'qdrant_rag__list_collections')?.outputSchema);
+
+    assert.deepEqual(outputSchema.required.sort(), ['collections', 'totalCollections']);
+    assert.equal(outputSchema.properties.totalCollections?.type, 'number');
+
+    // The SDK client also validates structuredContent against the cached outputSchema
+    const result = await client.callTool({ name: 'qdrant_rag__list_collections', arguments: {} });
+    const structured = z.record(z.unknown()).parse(result.structuredContent);
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(Object.keys(structured).sort(), Object.keys(outputSchema.properties).sort());
+    assert.deepEqual(structured, {
+      collections: [{ name: 'docs', vectorsCount: 0, pointsCount: 1, status: 'green' }],
+      totalCollections: 1
+    });
+    assert.deepEqual(JSON.parse((result.content as Array<{ text: string }>)[0].text), structured);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('Persistent cache', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devrk-cache-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should derive different keys from different parts', async () => {
+    const { PersistentCache } = await import('../../src/utils/persistent-cache.js');
+    assert.equal(PersistentCache.key('v1', 'openai', 'gpt-4o-mini'), PersistentCache.key('v1', 'openai', 'gpt-4o-mini'));
+    assert.notEqual(PersistentCache.key('v1', 'openai', 'gpt-4o-mini'), PersistentCache.key('v1', 'openai', 'gpt-4o'));
+    assert.match(PersistentCache.key('v1'), /^[0-9a-f]{64}$/);
+  });
+
+  it('should persist entries across instances and count hits and misses', async () => {
+    const { PersistentCache } = await import('../../src/utils/persistent-cache.js');
+    const options = { directory: dir, ttlMs: 60_000, maxBytes: 0 };
+    const writer = new PersistentCache<string>('summaries', options);
+
+    let calls = 0;
+    const compute = async () => `summary ${++calls}`;
+    assert.equal(await writer.getOrSet('k', compute), 'summary 1');
+    assert.equal(await writer.getOrSet('k', compute), 'summary 1');
+    assert.deepEqual(writer.stats(), { hits: 1, misses: 1 });
+
+    const reader = new PersistentCache<string>('summaries', options);
+    assert.equal(await reader.get('k'), 'summary 1');
+    assert.equal(calls, 1);
+  });
+
+  it('should count hits and misses per call without mixing overlapping calls', async () => {
+    const { PersistentCache, emptyCacheStats } = await import('../../src/utils/persistent-cache.js');
+    const cache = new PersistentCache<string>('per-call', { directory: dir, ttlMs: 0, maxBytes: 0 });
+    await cache.set('shared', 'cached');
+
+    const first = emptyCacheStats();
+    const second = emptyCacheStats();
+    await Promise.all([
+      cache.getOrSet('shared', async () => 'computed', undefined, first),
+      cache.getOrSet('new', async () => 'computed', undefined, second),
+      cache.get('shared', second)
+    ]);
+
+    assert.deepEqual(first, { hits: 1, misses: 0 });
+    assert.deepEqual(second, { hits: 1, misses: 1 });
+    assert.deepEqual(cache.stats(), { hits: 2, misses: 1 });
+  });
+
+  it('should not store values rejected by shouldCache', async () => {
+    const { PersistentCache } = await import('../../src/utils/persistent-cache.js');
+    const cache = new PersistentCache<string | null>('rejected', { directory: dir, ttlMs: 0, maxBytes: 0 });
+
+    assert.equal(await cache.getOrSet('k', async () => null, value => value !== null), null);
+    assert.equal(await cache.get('k'), undefined);
+    assert.equal(cache.misses, 2);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const { PersistentCache } = await import('../../src/utils/persistent-cache.js');
+    const cache = new PersistentCache<number>('ttl', { directory: dir, ttlMs: 20, maxBytes: 0 });
+
+    await cache.set('k', 1);
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    assert.equal(await cache.get('k'), undefined);
+    assert.deepEqual(await readdir(join(dir, 'ttl')), []);
+  });
+
+  it('should evict the oldest entries over the size limit', async () => {
+    const { PersistentCache } = await import('../../src/utils/persistent-cache.js');
+    const cache = new PersistentCache<string>('size', { directory: dir, ttlMs: 0, maxBytes: 250 });
+
+    for (const key of ['a', 'b', 'c']) {
+      await cache.set(key, 'x'.repeat(80));
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    assert.equal(await cache.get('a'), undefined);
+    assert.equal(await cache.get('c'), 'x'.repeat(80));
+    assert.equal((await readdir(join(dir, 'size'))).length, 2);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Minimal plugin module - tool-shaped exports without depending on zod
+ */
+const pluginSource = (serverName: string) => `
+const tool = (name) => ({
+  name,
+  inputSchema: {},
+  outputSchema: {},
+  execute: async () => ({}),
+  call: async () => ({})
+});
+export const manifest = { name: '${serverName}', description: 'Test plugin', version: '1.0.0' };
+export const ping = tool('${serverName.replace(/-/g, '_')}__ping');
+export const helper = () => 'not a tool';
+`;
+
+describe('Plugin loader', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devrk-plugins-'));
+    await writeFile(join(dir, 'good.mjs'), pluginSource('acme-tools'));
+    await writeFile(join(dir, 'conflict.mjs'), pluginSource('youtube'));
+    await writeFile(join(dir, 'broken.mjs'), 'throw new Error("boom");');
+    await writeFile(join(dir, 'no-manifest.mjs'), 'export const x = 1;');
+    await writeFile(join(dir, 'default-manifest.mjs'), pluginSource('default-tools')
+      .replace('export const manifest =', 'const manifest =') + 'export default { manifest };\n');
+    await writeFile(join(dir, 'bad-name.mjs'), pluginSource('bad-name').replace("name: 'bad-name'", 'name: 42'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should parse comma-separated plugin list', async () => {
+    const { parsePluginList } = await import('../../src/servers/plugins.js');
+    assert.deepEqual(parsePluginList(' a, ./b ,,@scope/c '), ['a', './b', '@scope/c']);
+    assert.deepEqual(parsePluginList(''), []);
+  });
+
+  it('should load tools from a plugin module', async () => {
+    const { loadPlugins } = await import('../../src/servers/plugins.js');
+    const plugins = await loadPlugins([join(dir, 'good.mjs')], []);
+
+    assert.equal(plugins.length, 1);
+    assert.equal(plugins[0].name, 'acme-tools');
+    assert.deepEqual(plugins[0].tools, ['ping']);
+    assert.ok(plugins[0].toolModules?.ping.startsWith('file://'));
+  });
+
+  it('should read the manifest from the default export', async () => {
+    const { loadPlugins } = await import('../../src/servers/plugins.js');
+    const plugins = await loadPlugins([join(dir, 'default-manifest.mjs')], []);
+
+    assert.deepEqual(plugins.map(p => [p.name, p.version]), [['default-tools', '1.0.0']]);
+  });
+
+  it('should isolate broken plugins and reject name conflicts', async () => {
+    const { loadPlugins } = await import('../../src/servers/plugins.js');
+    const builtIn = [{ name: 'youtube', description: '', version: '1.0.0', tools: ['getLatestVideos'] }];
+
+    const plugins = await loadPlugins([
+      join(dir, 'broken.mjs'),
+      join(dir, 'no-manifest.mjs'),
+      join(dir, 'bad-name.mjs'),
+      join(dir, 'conflict.mjs'),
+      join(dir, 'missing.mjs'),
+      join(dir, 'good.mjs')
+    ], builtIn);
+
+    assert.deepEqual(plugins.map(p => p.name), ['acme-tools']);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeQdrant } from '../helpers/fake-qdrant.js';
+
+const chunk = (id: string, content: string, metadata?: Record<string, unknown>) => ({
+  id, collection: 'docs', score: 0.9, content, ...(metadata && { metadata })
+});
+
+describe('Qdrant answer', () => {
+  it('should validate input and apply defaults', async () => {
+    const { answer } = await import('../../src/servers/qdrant-rag/answer.js');
+    assert.equal(answer.name, 'qdrant_rag__answer');
+
+    const parsed = answer.inputSchema.parse({ question: 'How do I deploy?' });
+    assert.equal(parsed.limit, 6);
+    assert.equal(parsed.maxContextTokens, 3000);
+    assert.throws(() => answer.inputSchema.parse({ question: '' }));
+    assert.throws(() => answer.inputSchema.parse({ question: 'q', maxContextTokens: 10 }));
+  });
+
+  it('should number passages and show source metadata in headers', async () => {
+    const { buildContext } = await import('../../src/servers/qdrant-rag/answer.js');
+    const { context, sources, skipped } = buildContext([
+      chunk('a', 'Deploy with npm run deploy.', { title: 'Runbook', section: 'Deploy', tags: ['ops'] }),
+      chunk('b', 'Rollback with git revert.')
+    ], 1000);
+
+    assert.equal(context, '[1] collection: docs, title: Runbook, section: Deploy\nDeploy with npm run deploy.\n\n' +
+      '[2] collection: docs\nRollback with git revert.');
+    assert.deepEqual(sources.map(source => [source.ref, source.id]), [[1, 'a'], [2, 'b']]);
+    assert.equal(skipped, 0);
+  });
+
+  it('should stop adding passages at the token budget', async () => {
+    const { buildContext, estimateTokens } = await import('../../src/servers/qdrant-rag/answer.js');
+    const { context, sources, skipped } = buildContext([
+      chunk('a', 'x'.repeat(700)),
+      chunk('b', 'y'.repeat(700)),
+      chunk('c', 'z'.repeat(10))
+    ], 200);
+
+    assert.deepEqual(sources.map(source => source.id), ['a']);
+    assert.equal(skipped, 2);
+    assert.ok(estimateTokens(context) <= 200);
+  });
+
+  it('should truncate a first passage larger than the budget', async () => {
+    const { buildContext } = await import('../../src/servers/qdrant-rag/answer.js');
+    const { context, sources } = buildContext([chunk('a', 'x'.repeat(5000))], 200);
+
+    assert.equal(sources.length, 1);
+    assert.equal(context.length, 800);
+  });
+
+  it('should map inline [n] markers to cited sources', async () => {
+    const { buildContext, extractCitations } = await import('../../src/servers/qdrant-rag/answer.js');
+    const { sources } = buildContext([chunk('a', 'one'), chunk('b', 'two'), chunk('c', 'three')], 1000);
+
+    const citations = extractCitations('Use three [3]. Then one [1, 3] and [7].', sources);
+    assert.deepEqual(citations.map(citation => citation.id), ['c', 'a']);
+  });
+
+  describe('score threshold in sparse and hybrid mode', () => {
+    const qdrant = new FakeQdrant();
+    const unrelated = { id: 'u', score: 0.3, payload: { content: 'Quarterly marketing budget and office plants.' } };
+
+    before(async () => {
+      const { config } = await import('../../src/config.js');
+      config.qdrant.url = await qdrant.start();
+      config.qdrant.embeddingProvider = 'fake';
+      config.qdrant.embeddingCacheDir = '';
+      // No AI key: reaching the model would fail the call
+      config.ai.apiKey = '';
+      qdrant.sparseVectors = { bm25: {} };
+      qdrant.queryHits.set('docs', [unrelated]);
+    });
+
+    after(async () => {
+      await qdrant.stop();
+    });
+
+    it('should judge sparse hits by question-term coverage', async () => {
+      const { isRelevant } = await import('../../src/servers/qdrant-rag/answer.js');
+      const question = 'How to fix ERR_CONN_RESET?';
+
+      assert.equal(isRelevant({ content: 'ERR_CONN_RESET: fix by raising the keepalive.', retriever: 'sparse' }, question, 'sparse', 0.7), true);
+      assert.equal(isRelevant({ content: 'Reset your password.', retriever: 'sparse' }, question, 'sparse', 0.7), false);
+      assert.equal(isRelevant({ content: 'Unrelated', retriever: 'both' }, question, 'hybrid', 0.7), true);
+      assert.equal(isRelevant({ content: 'Unrelated', retriever: 'sparse' }, question, 'hybrid', 0.7), false);
+    });
+
+    for (const mode of ['sparse', 'hybrid'] as const) {
+      it(`should not answer from low-relevance ${mode} hits`, async () => {
+        const { answer, NO_ANSWER } = await import('../../src/servers/qdrant-rag/answer.js');
+        const result = await answer.call({ question: 'How do I rotate the Gmail refresh token?', collection: 'docs', mode });
+
+        assert.equal(result.answer, NO_ANSWER);
+        assert.equal(result.answered, false);
+        assert.deepEqual(result.sources, []);
+      });
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeQdrant } from '../helpers/fake-qdrant.js';
+
+describe('Qdrant collection management tools', () => {
+  it('should default create_collection distance to Cosine and leave vector size to the probe', async () => {
+    const { createCollection } = await import('../../src/servers/qdrant-rag/createCollection.js');
+    assert.equal(createCollection.name, 'qdrant_rag__create_collection');
+
+    const parsed = createCollection.inputSchema.parse({ collection: 'kb' });
+    assert.equal(parsed.distance, 'Cosine');
+    assert.equal(parsed.vectorSize, undefined);
+  });
+
+  it('should require confirm: true to delete a collection', async () => {
+    const { deleteCollection } = await import('../../src/servers/qdrant-rag/deleteCollection.js');
+    assert.equal(deleteCollection.name, 'qdrant_rag__delete_collection');
+
+    assert.throws(() => deleteCollection.inputSchema.parse({ collection: 'kb' }));
+    assert.throws(() => deleteCollection.inputSchema.parse({ collection: 'kb', confirm: false }));
+    assert.ok(deleteCollection.inputSchema.parse({ collection: 'kb', confirm: true }));
+  });
+
+  it('should default describe_collection to the configured collection', async () => {
+    const { describeCollection } = await import('../../src/servers/qdrant-rag/describeCollection.js');
+    assert.equal(describeCollection.name, 'qdrant_rag__describe_collection');
+    assert.equal(describeCollection.inputSchema.parse({}).collection, 'default');
+  });
+
+  describe('describe_collection vectors', () => {
+    const qdrant = new FakeQdrant();
+
+    before(async () => {
+      const { config } = await import('../../src/config.js');
+      config.qdrant.url = await qdrant.start();
+    });
+
+    after(async () => {
+      await qdrant.stop();
+    });
+
+    it('should report a single unnamed vector with a null name', async () => {
+      const { describeCollection } = await import('../../src/servers/qdrant-rag/describeCollection.js');
+      qdrant.vectors = { size: 384, distance: 'Cosine', on_disk: true };
+
+      const result = await describeCollection.call({ collection: 'single' });
+      assert.deepEqual(result.vectors, [{ name: null, size: 384, distance: 'Cosine', onDisk: true }]);
+    });
+
+    it('should list named vectors by name', async () => {
+      const { describeCollection } = await import('../../src/servers/qdrant-rag/describeCollection.js');
+      qdrant.vectors = { dense: { size: 768, distance: 'Dot' }, title: { size: 384, distance: 'Cosine' } };
+
+      const result = await describeCollection.call({ collection: 'named' });
+      assert.deepEqual(result.vectors, [
+        { name: 'dense', size: 768, distance: 'Dot' },
+        { name: 'title', size: 384, distance: 'Cosine' }
+      ]);
+    });
+  });
+});
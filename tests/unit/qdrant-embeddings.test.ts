@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('Embedding providers', () => {
+  describe('fake provider', () => {
+    it('should return deterministic unit vectors of the requested size', async () => {
+      const { createFakeProvider } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const provider = createFakeProvider({ model: 'fake', dimensions: 16 });
+
+      const [a, b, c] = await provider.embed(['hello', 'hello', 'world']);
+
+      assert.equal(a.length, 16);
+      assert.deepEqual(a, b);
+      assert.notDeepEqual(a, c);
+      assert.ok(Math.abs(Math.hypot(...a) - 1) < 1e-9);
+    });
+
+    it('should reject unknown provider types', async () => {
+      const { createEmbeddingProvider } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      assert.throws(() => createEmbeddingProvider('word2vec', { model: 'x' }), /Unknown EMBEDDING_PROVIDER/);
+    });
+  });
+
+  describe('embedTexts', () => {
+    it('should batch cache misses, embed duplicates once and keep input order', async () => {
+      const { createFakeProvider, embedTexts, EmbeddingCache } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const fake = createFakeProvider({ model: 'fake', dimensions: 8 });
+      const batches: string[][] = [];
+      const provider = { ...fake, embed: async (texts: string[]) => { batches.push(texts); return fake.embed(texts); } };
+      const cache = new EmbeddingCache(100);
+
+      const vectors = await embedTexts(['a', 'b', 'a', 'c', 'd'], { provider, cache, batchSize: 2 });
+
+      assert.deepEqual(batches, [['a', 'b'], ['c', 'd']]);
+      assert.deepEqual(vectors, await fake.embed(['a', 'b', 'a', 'c', 'd']));
+
+      await embedTexts(['a', 'd'], { provider, cache, batchSize: 2 });
+      assert.equal(batches.length, 2, 'cached texts are not embedded again');
+      assert.equal(cache.hits, 2);
+    });
+
+    it('should fail when the provider returns the wrong number of vectors', async () => {
+      const { embedTexts, EmbeddingCache } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const provider = { name: 'broken', model: 'x', embed: async () => [[1, 2]] };
+
+      await assert.rejects(
+        embedTexts(['a', 'b'], { provider, cache: new EmbeddingCache(10) }),
+        /returned 1 vectors for 2 texts/
+      );
+    });
+  });
+
+  describe('EmbeddingCache', () => {
+    it('should evict least recently used entries', async () => {
+      const { EmbeddingCache } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const cache = new EmbeddingCache(2);
+
+      await cache.set('a', [1]);
+      await cache.set('b', [2]);
+      await cache.get('a');
+      await cache.set('c', [3]);
+
+      assert.deepEqual(await cache.get('a'), [1]);
+      assert.equal(await cache.get('b'), undefined);
+      assert.equal(cache.size, 2);
+    });
+
+    it('should persist entries on disk across instances', async () => {
+      const { EmbeddingCache } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const directory = await mkdtemp(join(tmpdir(), 'embedding-cache-'));
+
+      try {
+        await new EmbeddingCache(10, directory).set('key', [0.5, 0.25]);
+        assert.deepEqual(await readdir(join(directory, 'embeddings')), ['key.json']);
+        assert.deepEqual(await new EmbeddingCache(10, directory).get('key'), [0.5, 0.25]);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should evict the oldest entries on disk beyond maxBytes', async () => {
+      const { EmbeddingCache } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const directory = await mkdtemp(join(tmpdir(), 'embedding-cache-'));
+
+      try {
+        const cache = new EmbeddingCache(10, directory, { maxBytes: 200 });
+        await cache.set('first', Array(20).fill(0.125));
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await cache.set('second', Array(20).fill(0.125));
+
+        assert.deepEqual(await readdir(join(directory, 'embeddings')), ['second.json']);
+        assert.equal(await new EmbeddingCache(10, directory).get('first'), undefined);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should key entries by provider, model and text', async () => {
+      const { EmbeddingCache } = await import('../../src/servers/qdrant-rag/embeddings.js');
+      const embed = async () => [];
+
+      const key = EmbeddingCache.key({ name: 'openai', model: 'm1', embed }, 0, 'text');
+      assert.equal(key, EmbeddingCache.key({ name: 'openai', model: 'm1', embed }, 0, 'text'));
+      assert.notEqual(key, EmbeddingCache.key({ name: 'openai', model: 'm2', embed }, 0, 'text'));
+      assert.notEqual(key, EmbeddingCache.key({ name: 'ollama', model: 'm1', embed }, 0, 'text'));
+    });
+  });
+
+  describe('assertVectorSize', () => {
+    it('should reject embeddings that do not match the collection vector size', async () => {
+      const { assertVectorSize } = await import('../../src/servers/qdrant-rag/utils.js');
+
+      assert.doesNotThrow(() => assertVectorSize('kb', { vectorSizes: { '': 4 } }, undefined, 4));
+      assert.doesNotThrow(() => assertVectorSize('kb', {}, undefined, 4));
+      assert.throws(
+        () => assertVectorSize('kb', { vectorSizes: { dense: 1536 } }, 'dense', 384),
+        /Embedding dimension 384 .* does not match vector size 1536 of collection "kb" \(vector "dense"\)/
+      );
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('Qdrant payload filter DSL', () => {
+  it('should translate match, range and dateRange conditions', async () => {
+    const { PayloadFilterSchema, toQdrantFilter } = await import('../../src/servers/qdrant-rag/filter.js');
+
+    const filter = PayloadFilterSchema.parse({
+      must: [
+        { key: 'project', match: 'devrk-mcp' },
+        { key: 'updatedAt', dateRange: { gte: '2025-06-01', lt: '2025-07-01T12:00:00Z' } }
+      ],
+      should: [{ key: 'priority', range: { gte: 2 } }],
+      mustNot: [{ key: 'status', match: ['draft', 'archived'] }]
+    });
+
+    assert.deepEqual(toQdrantFilter(filter), {
+      must: [
+        { key: 'project', match: { value: 'devrk-mcp' } },
+        { key: 'updatedAt', range: { gte: '2025-06-01T00:00:00Z', lt: '2025-07-01T12:00:00Z' } }
+      ],
+      should: [{ key: 'priority', range: { gte: 2 } }],
+      must_not: [{ key: 'status', match: { any: ['draft', 'archived'] } }]
+    });
+  });
+
+  it('should return undefined for missing or empty filters', async () => {
+    const { toQdrantFilter } = await import('../../src/servers/qdrant-rag/filter.js');
+
+    assert.equal(toQdrantFilter(undefined), undefined);
+    assert.equal(toQdrantFilter({ must: [] }), undefined);
+  });
+
+  it('should require exactly one operator per condition', async () => {
+    const { FilterConditionSchema } = await import('../../src/servers/qdrant-rag/filter.js');
+
+    assert.throws(() => FilterConditionSchema.parse({ key: 'project' }));
+    assert.throws(() => FilterConditionSchema.parse({ key: 'n', match: 1, range: { gt: 0 } }));
+  });
+
+  it('should reject empty ranges and invalid dates', async () => {
+    const { FilterConditionSchema } = await import('../../src/servers/qdrant-rag/filter.js');
+
+    assert.throws(() => FilterConditionSchema.parse({ key: 'n', range: {} }));
+    assert.throws(() => FilterConditionSchema.parse({ key: 'd', dateRange: { gte: 'June 2025' } }));
+  });
+
+  it('should only accept match arrays of strings or of numbers', async () => {
+    const { FilterConditionSchema } = await import('../../src/servers/qdrant-rag/filter.js');
+
+    assert.ok(FilterConditionSchema.parse({ key: 'n', match: [1, 2] }));
+    assert.throws(() => FilterConditionSchema.parse({ key: 'mixed', match: ['a', 1] }));
+    assert.throws(() => FilterConditionSchema.parse({ key: 'flags', match: [true, false] }));
+  });
+
+  it('should be accepted by the search tool', async () => {
+    const { search } = await import('../../src/servers/qdrant-rag/search.js');
+
+    const parsed = search.inputSchema.parse({
+      query: 'deployment',
+      filter: { must: [{ key: 'project', match: 'x' }] }
+    });
+    assert.equal(parsed.filter?.must?.[0].key, 'project');
+    assert.throws(() => search.inputSchema.parse({ query: 'x', filter: { must: [{ key: 'a', match: {} }] } }));
+  });
+});
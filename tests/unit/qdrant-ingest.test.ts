@@ -0,0 +1,133 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeQdrant } from '../helpers/fake-qdrant.js';
+
+describe('Qdrant ingest', () => {
+  describe('chunkText', () => {
+    it('should return a single chunk for short text', async () => {
+      const { chunkText } = await import('../../src/servers/qdrant-rag/chunking.js');
+      assert.deepEqual(chunkText('  Short text.  ', { chunkSize: 100, chunkOverlap: 10 }), ['Short text.']);
+    });
+
+    it('should split long text into overlapping chunks within chunkSize', async () => {
+      const { chunkText } = await import('../../src/servers/qdrant-rag/chunking.js');
+      const sentences = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} is here.`);
+      const chunks = chunkText(sentences.join(' '), { chunkSize: 200, chunkOverlap: 50 });
+
+      assert.ok(chunks.length > 1);
+      for (const chunk of chunks) {
+        assert.ok(chunk.length <= 200);
+      }
+      // Consecutive chunks share text
+      assert.ok(chunks[0].includes(chunks[1].slice(0, 20)));
+      // Every sentence survives chunking
+      for (const sentence of sentences) {
+        assert.ok(chunks.some(chunk => chunk.includes(sentence)), sentence);
+      }
+    });
+
+    it('should reject overlap not smaller than chunk size', async () => {
+      const { chunkText } = await import('../../src/servers/qdrant-rag/chunking.js');
+      assert.throws(() => chunkText('text', { chunkSize: 100, chunkOverlap: 100 }));
+    });
+  });
+
+  describe('chunkMarkdown', () => {
+    it('should chunk per section and record the heading path', async () => {
+      const { chunkMarkdown } = await import('../../src/servers/qdrant-rag/chunking.js');
+      const markdown = [
+        'Intro paragraph.',
+        '# Setup',
+        '## Docker',
+        'Run docker compose up.',
+        '```',
+        '# not a heading',
+        '```',
+        '# Usage',
+        'Call the tool.'
+      ].join('\n');
+
+      const chunks = chunkMarkdown(markdown, { chunkSize: 500, chunkOverlap: 50 });
+
+      assert.deepEqual(chunks.map(chunk => chunk.section), [undefined, 'Setup > Docker', 'Usage']);
+      assert.ok(chunks[1].content.includes('# not a heading'));
+    });
+  });
+
+  describe('payload layout', () => {
+    it('should read back content and metadata the way search does', async () => {
+      const { buildPayload, splitPayload } = await import('../../src/servers/qdrant-rag/utils.js');
+      const payload = buildPayload('chunk text', { source: 'README.md', chunkIndex: 0 });
+
+      assert.deepEqual(splitPayload(payload), {
+        content: 'chunk text',
+        metadata: { source: 'README.md', chunkIndex: 0 }
+      });
+    });
+
+    it('should generate deterministic UUID point IDs per chunk', async () => {
+      const { chunkPointId } = await import('../../src/servers/qdrant-rag/utils.js');
+
+      assert.equal(chunkPointId('doc', 0), chunkPointId('doc', 0));
+      assert.notEqual(chunkPointId('doc', 0), chunkPointId('doc', 1));
+      assert.match(chunkPointId('doc', 0), /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    });
+  });
+
+  describe('ingest tool schema validation', () => {
+    it('should have correct tool name and defaults', async () => {
+      const { ingest } = await import('../../src/servers/qdrant-rag/ingest.js');
+      assert.equal(ingest.name, 'qdrant_rag__ingest');
+
+      const parsed = ingest.inputSchema.parse({ text: 'hello' });
+      assert.equal(parsed.format, 'text');
+      assert.equal(parsed.chunkSize, 1000);
+      assert.equal(parsed.chunkOverlap, 200);
+    });
+
+    it('should require exactly one of text or documents', async () => {
+      const { ingest } = await import('../../src/servers/qdrant-rag/ingest.js');
+
+      assert.throws(() => ingest.inputSchema.parse({}));
+      assert.throws(() => ingest.inputSchema.parse({ text: 'a', documents: [{ content: 'b' }] }));
+      assert.ok(ingest.inputSchema.parse({ documents: [{ content: 'b', metadata: { source: 'x' } }] }));
+    });
+
+    it('should reject overlap larger than chunk size', async () => {
+      const { ingest } = await import('../../src/servers/qdrant-rag/ingest.js');
+      assert.throws(() => ingest.inputSchema.parse({ text: 'a', chunkSize: 500, chunkOverlap: 600 }));
+    });
+  });
+
+  describe('re-ingesting a document', () => {
+    const qdrant = new FakeQdrant();
+
+    before(async () => {
+      const { config } = await import('../../src/config.js');
+      config.qdrant.url = await qdrant.start();
+      config.qdrant.embeddingProvider = 'fake';
+      config.qdrant.embeddingCacheDir = '';
+    });
+
+    after(async () => {
+      await qdrant.stop();
+    });
+
+    it('should delete chunks the shorter new version no longer has', async () => {
+      const { ingest } = await import('../../src/servers/qdrant-rag/ingest.js');
+      const long = Array.from({ length: 30 }, (_, i) => `Old sentence number ${i} is here.`).join(' ');
+
+      const first = await ingest.call({ documents: [{ id: 'doc', content: long }], collection: 'kb', chunkSize: 200, chunkOverlap: 0 });
+      assert.ok(first.chunks > 2);
+      assert.equal(qdrant.points('kb').length, first.chunks);
+
+      const second = await ingest.call({ documents: [{ id: 'doc', content: 'New short version.' }], collection: 'kb' });
+      assert.equal(second.chunks, 1);
+
+      const stored = qdrant.points('kb');
+      assert.equal(stored.length, 1);
+      assert.equal(stored[0].payload.content, 'New short version.');
+      assert.equal(stored[0].payload.chunkCount, 1);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('Qdrant point tools', () => {
+  describe('point selection', () => {
+    it('should request only selected fields plus content', async () => {
+      const { selectionOptions, PointSelectionSchema } = await import('../../src/servers/qdrant-rag/points.js');
+
+      assert.deepEqual(selectionOptions(PointSelectionSchema.parse({})), { with_payload: true, with_vector: false });
+      assert.deepEqual(
+        selectionOptions(PointSelectionSchema.parse({ fields: ['source'], withVectors: true })),
+        { with_payload: { include: ['source', 'content', 'text'] }, with_vector: true }
+      );
+      assert.deepEqual(
+        selectionOptions(PointSelectionSchema.parse({ fields: ['source'], includeContent: false })).with_payload,
+        { include: ['source'] }
+      );
+    });
+
+    it('should split payload into content and metadata like search', async () => {
+      const { toPoint, PointSelectionSchema } = await import('../../src/servers/qdrant-rag/points.js');
+      const record = { id: 7, payload: { text: 'hello', source: 'a.md' }, vector: [1, 2] };
+
+      assert.deepEqual(toPoint(record, PointSelectionSchema.parse({})), {
+        id: 7, content: 'hello', metadata: { source: 'a.md' }
+      });
+      assert.deepEqual(toPoint(record, PointSelectionSchema.parse({ includeContent: false, withVectors: true })), {
+        id: 7, metadata: { source: 'a.md' }, vector: [1, 2]
+      });
+    });
+  });
+
+  describe('schema validation', () => {
+    it('should validate get_points and scroll input', async () => {
+      const { getPoints } = await import('../../src/servers/qdrant-rag/getPoints.js');
+      const { scroll } = await import('../../src/servers/qdrant-rag/scroll.js');
+
+      assert.equal(getPoints.name, 'qdrant_rag__get_points');
+      assert.deepEqual(getPoints.inputSchema.parse({ ids: ['a', 3] }).ids, ['a', 3]);
+      assert.throws(() => getPoints.inputSchema.parse({ ids: [] }));
+      assert.throws(() => getPoints.inputSchema.parse({ ids: [-1] }));
+
+      assert.equal(scroll.name, 'qdrant_rag__scroll');
+      assert.equal(scroll.inputSchema.parse({}).limit, 20);
+      assert.equal(scroll.inputSchema.parse({ cursor: 'f3a1' }).cursor, 'f3a1');
+    });
+
+    it('should default delete_points to a dry run and need ids or filter', async () => {
+      const { deletePoints } = await import('../../src/servers/qdrant-rag/deletePoints.js');
+
+      assert.equal(deletePoints.name, 'qdrant_rag__delete_points');
+      assert.equal(deletePoints.inputSchema.parse({ ids: [1] }).dryRun, true);
+      assert.throws(() => deletePoints.inputSchema.parse({}));
+      assert.throws(() => deletePoints.inputSchema.parse({ ids: [1], filter: { must: [{ key: 'a', match: 1 }] } }));
+    });
+
+    it('should refuse a filter without conditions', async () => {
+      const { deletePoints } = await import('../../src/servers/qdrant-rag/deletePoints.js');
+      await assert.rejects(deletePoints.call({ filter: {}, dryRun: false }), /no conditions/);
+    });
+  });
+});
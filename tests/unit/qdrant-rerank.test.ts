@@ -0,0 +1,78 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.RERANK_ENDPOINT = 'http://rerank.test/v1/rerank';
+process.env.RERANK_MODEL = 'test-reranker';
+
+const originalFetch = globalThis.fetch;
+
+describe('Qdrant rerank', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('parseJudgeScores', () => {
+    it('should scale 0-10 ratings to 0-1 and clamp out-of-range values', async () => {
+      const { parseJudgeScores } = await import('../../src/servers/qdrant-rag/rerank.js');
+      assert.deepEqual(parseJudgeScores('Ratings: [10, 5, 0, 12, -1]', 5), [1, 0.5, 0, 1, 0]);
+    });
+
+    it('should reject a wrong number of ratings', async () => {
+      const { parseJudgeScores } = await import('../../src/servers/qdrant-rag/rerank.js');
+      assert.throws(() => parseJudgeScores('[1, 2]', 3), /2 ratings for 3 passages/);
+      assert.throws(() => parseJudgeScores('no idea', 1), /JSON array/);
+    });
+  });
+
+  describe('rerank endpoint', () => {
+    it('should send query and documents and align scores by index', async () => {
+      const { rerank } = await import('../../src/servers/qdrant-rag/rerank.js');
+      let request: any;
+
+      globalThis.fetch = (async (url: string, init: RequestInit) => {
+        request = { url, body: JSON.parse(init.body as string) };
+        return new Response(JSON.stringify({
+          results: [{ index: 2, relevance_score: 0.9 }, { index: 0, relevance_score: 0.4 }]
+        }));
+      }) as typeof fetch;
+
+      const scores = await rerank('query', ['a', 'b', 'c'], 'endpoint');
+
+      assert.equal(request.url, 'http://rerank.test/v1/rerank');
+      assert.deepEqual(request.body, { model: 'test-reranker', query: 'query', documents: ['a', 'b', 'c'], top_n: 3 });
+      assert.deepEqual(scores, [0.4, 0, 0.9]);
+    });
+
+    it('should surface endpoint errors', async () => {
+      const { rerank } = await import('../../src/servers/qdrant-rag/rerank.js');
+      globalThis.fetch = (async () => new Response('nope', { status: 503, statusText: 'Unavailable' })) as unknown as typeof fetch;
+
+      await assert.rejects(rerank('query', ['a'], 'endpoint'), /Rerank API error: 503/);
+    });
+
+    it('should reject malformed responses with a ToolError', async () => {
+      const { rerank } = await import('../../src/servers/qdrant-rag/rerank.js');
+      const { ToolError } = await import('../../src/types/index.js');
+
+      globalThis.fetch = (async () => new Response(JSON.stringify({
+        results: [{ index: '0', relevance_score: 0.9 }]
+      }))) as unknown as typeof fetch;
+      await assert.rejects(rerank('query', ['a'], 'endpoint'), (error: unknown) =>
+        error instanceof ToolError && /Malformed rerank response: results\.0\.index/.test(error.message));
+
+      globalThis.fetch = (async () => new Response('null')) as unknown as typeof fetch;
+      await assert.rejects(rerank('query', ['a'], 'endpoint'), ToolError);
+
+      globalThis.fetch = (async () => new Response('<html>')) as unknown as typeof fetch;
+      await assert.rejects(rerank('query', ['a'], 'endpoint'), /Rerank response is not JSON/);
+    });
+  });
+
+  it('should accept rerank options in search input', async () => {
+    const { search } = await import('../../src/servers/qdrant-rag/search.js');
+
+    const parsed = search.inputSchema.parse({ query: 'q', rerank: 'llm', rerankCandidates: 20 });
+    assert.equal(parsed.rerank, 'llm');
+    assert.throws(() => search.inputSchema.parse({ query: 'q', rerank: 'cohere' }));
+  });
+});
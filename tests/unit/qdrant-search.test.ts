@@ -29,6 +29,68 @@ describe('Qdrant RAG Server', () => {
       const parsed = search.inputSchema.parse({ query: 'test' });
       assert.equal(parsed.limit, 5);
       assert.equal(parsed.scoreThreshold, 0.7);
+      assert.equal(parsed.mode, 'dense');
+    });
+
+    it('should reject unknown search modes', async () => {
+      const { search } = await import('../../src/servers/qdrant-rag/search.js');
+      assert.throws(() => search.inputSchema.parse({ query: 'test', mode: 'keyword' }));
+    });
+
+    it('should accept a collections list or "*"', async () => {
+      const { search } = await import('../../src/servers/qdrant-rag/search.js');
+      assert.deepEqual(search.inputSchema.parse({ query: 'test', collections: ['a', 'b'] }).collections, ['a', 'b']);
+      assert.equal(search.inputSchema.parse({ query: 'test', collections: '*' }).collections, '*');
+      assert.throws(() => search.inputSchema.parse({ query: 'test', collections: [] }));
+      assert.throws(() => search.inputSchema.parse({ query: 'test', collections: 'all' }));
+    });
+  });
+
+  describe('multi-collection merge', () => {
+    const hit = (collection: string, id: string, score: number, metadata?: Record<string, unknown>) => ({
+      id, score, collection, content: `${collection}:${id}`, retriever: 'dense' as const, ...(metadata && { metadata })
+    });
+
+    it('should min-max normalize scores per collection', async () => {
+      const { normalizeScores } = await import('../../src/servers/qdrant-rag/search.js');
+      const normalized = normalizeScores([hit('a', '1', 0.9), hit('a', '2', 0.8), hit('a', '3', 0.7)]);
+      assert.deepEqual(normalized.map(result => Math.round(result.normalizedScore * 100) / 100), [1, 0.5, 0]);
+    });
+
+    it('should keep the raw score, clamped to [0, 1], without two distinct scores', async () => {
+      const { normalizeScores } = await import('../../src/servers/qdrant-rag/search.js');
+      assert.equal(normalizeScores([hit('a', '1', 0.42)])[0].normalizedScore, 0.42);
+      assert.deepEqual(normalizeScores([hit('a', '1', 0.5), hit('a', '2', 0.5)]).map(result => result.normalizedScore), [0.5, 0.5]);
+      assert.equal(normalizeScores([hit('a', '1', 7.5)])[0].normalizedScore, 1);
+      assert.equal(normalizeScores([hit('a', '1', -0.2)])[0].normalizedScore, 0);
+    });
+
+    it('should not rank a lone low-scoring hit above strong hits of another collection', async () => {
+      const { mergeCollectionResults } = await import('../../src/servers/qdrant-rag/search.js');
+      const merged = mergeCollectionResults([
+        [hit('notes', 'weak', 0.12)],
+        [hit('docs', '1', 0.9), hit('docs', '2', 0.85), hit('docs', '3', 0.8)]
+      ]);
+      assert.deepEqual(merged.map(result => result.id), ['1', '2', 'weak', '3']);
+    });
+
+    it('should interleave collections with different score scales', async () => {
+      const { mergeCollectionResults } = await import('../../src/servers/qdrant-rag/search.js');
+      const merged = mergeCollectionResults([
+        [hit('dense', '1', 0.92), hit('dense', '2', 0.9)],
+        [hit('hybrid', '3', 0.03), hit('hybrid', '4', 0.01)]
+      ]);
+      assert.deepEqual(merged.map(result => result.id), ['1', '3', '2', '4']);
+    });
+
+    it('should keep the best copy of chunks found in several collections', async () => {
+      const { mergeCollectionResults } = await import('../../src/servers/qdrant-rag/search.js');
+      const chunk = { documentId: 'readme', chunkIndex: 0 };
+      const merged = mergeCollectionResults([
+        [hit('a', 'x', 0.9), hit('a', 'y', 0.5, chunk)],
+        [hit('b', 'z', 0.8, chunk), hit('b', 'w', 0.6)]
+      ]);
+      assert.deepEqual(merged.map(result => `${result.collection}/${result.id}`), ['a/x', 'b/z', 'b/w']);
     });
   });
 
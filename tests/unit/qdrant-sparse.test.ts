@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('Qdrant sparse vectors', () => {
+  it('should keep compound identifiers and their parts as terms', async () => {
+    const { tokenize } = await import('../../src/servers/qdrant-rag/sparse.js');
+    const tokens = tokenize('What is ERR_CONN_RESET in auth.login?');
+
+    assert.ok(tokens.includes('err_conn_reset'));
+    assert.ok(tokens.includes('auth.login'));
+    assert.ok(tokens.includes('login'));
+    assert.ok(!tokens.includes('what'));
+    assert.ok(!tokens.includes('is'));
+  });
+
+  it('should build matching indices for query and document', async () => {
+    const { buildSparseVector } = await import('../../src/servers/qdrant-rag/sparse.js');
+    const query = buildSparseVector('ERR_CONN_RESET', 'query');
+    const document = buildSparseVector('Retry on ERR_CONN_RESET. ERR_CONN_RESET means the peer closed.', 'document');
+
+    assert.ok(query.values.every(value => value === 1));
+    for (const index of query.indices) {
+      assert.ok(document.indices.includes(index));
+    }
+    assert.deepEqual([...document.indices].sort((a, b) => a - b), document.indices);
+  });
+
+  it('should weigh repeated document terms higher with saturation', async () => {
+    const { buildSparseVector, termIndex } = await import('../../src/servers/qdrant-rag/sparse.js');
+    const document = buildSparseVector('qdrant qdrant qdrant search', 'document');
+    const weight = (term: string) => document.values[document.indices.indexOf(termIndex(term))];
+
+    assert.ok(weight('qdrant') > weight('search'));
+    assert.ok(weight('qdrant') < 3 * weight('search'));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('Rate limiting', () => {
+  it('should run at most `concurrency` workers and keep result order', async () => {
+    const { mapConcurrent } = await import('../../src/utils/rate-limit.js');
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+    assert.equal(peak, 2);
+  });
+
+  it('should share one limiter per service', async () => {
+    const { getLimiter } = await import('../../src/utils/rate-limit.js');
+    assert.equal(getLimiter('llm'), getLimiter('llm'));
+    assert.notEqual(getLimiter('llm'), getLimiter('youtube'));
+  });
+
+  it('should not run queued tasks of an aborted caller', async () => {
+    const { limited } = await import('../../src/utils/rate-limit.js');
+    const controller = new AbortController();
+    controller.abort();
+    let ran = false;
+
+    await assert.rejects(limited('transcripts', async () => { ran = true; }, controller.signal));
+    assert.equal(ran, false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+
+async function makeSkill() {
+  const { defineSkill } = await import('../../src/utils/skill-factory.js');
+
+  return defineSkill({
+    name: 'test-skill',
+    description: 'Test skill',
+    requiredServers: ['qdrant-rag'],
+    examples: ['Run the test skill'],
+    input: z.object({ query: z.string(), notify: z.boolean().optional().default(false) }),
+    output: z.object({ answer: z.string(), notified: z.boolean() }),
+    steps: [
+      {
+        id: 'search',
+        description: 'Search',
+        tool: 'qdrant_rag__search',
+        args: ({ input }) => ({ query: input.query })
+      },
+      {
+        id: 'answer',
+        description: 'Answer',
+        run: async ({ results }) => `found ${(results.search as { totalResults: number }).totalResults}`
+      },
+      {
+        id: 'notify',
+        description: 'Notify',
+        when: ({ input }) => input.notify,
+        run: async () => true
+      }
+    ],
+    result: ({ results }) => ({ answer: results.answer as string, notified: results.notify === true })
+  });
+}
+
+describe('defineSkill', () => {
+  it('should register as skills__<name> with skill metadata', async () => {
+    const skill = await makeSkill();
+
+    assert.equal(skill.name, 'skills__test_skill');
+    assert.deepEqual(skill.skill.requiredServers, ['qdrant-rag']);
+    assert.deepEqual(skill.steps, [
+      { id: 'search', description: 'Search', tool: 'qdrant_rag__search' },
+      { id: 'answer', description: 'Answer' },
+      { id: 'notify', description: 'Notify' }
+    ]);
+  });
+
+  it('should run steps in order through callTool and skip steps whose when() is false', async () => {
+    const skill = await makeSkill();
+    const calls: Array<[string, Record<string, unknown>]> = [];
+    const progress: string[] = [];
+
+    const result = await skill.call({ query: 'auth' }, {
+      callTool: async (name, args) => {
+        calls.push([name, args]);
+        return { totalResults: 3 };
+      },
+      reportProgress: async (current, total, message) => { progress.push(`${current}/${total} ${message}`); }
+    });
+
+    assert.deepEqual(calls, [['qdrant_rag__search', { query: 'auth' }]]);
+    assert.deepEqual(result, { answer: 'found 3', notified: false });
+    assert.deepEqual(progress, ['1/3 Search', '2/3 Answer', '3/3 Notify']);
+  });
+
+  it('should fail the skill, not report invalid params, when a step passes bad args to a tool', async () => {
+    const skill = await makeSkill();
+    const { search } = await import('../../src/servers/qdrant-rag/search.js');
+    const { ToolError, ToolValidationError } = await import('../../src/types/index.js');
+
+    // The skill accepts an empty query, qdrant_rag__search does not
+    const error = await skill.call({ query: '' }, { callTool: (_name, args) => search.call(args) })
+      .then(() => assert.fail('skill should fail'), (error: unknown) => error);
+
+    assert.ok(error instanceof ToolError);
+    assert.ok(!(error instanceof ToolValidationError));
+    assert.equal(error.tool, 'skills__test_skill');
+    assert.match(error.message, /Step "search" passed invalid arguments to qdrant_rag__search/);
+    assert.ok(error.cause instanceof ToolValidationError);
+  });
+
+  it('should fail outside the MCP server when a step needs callTool', async () => {
+    const skill = await makeSkill();
+    const { ToolError } = await import('../../src/types/index.js');
+
+    await assert.rejects(skill.call({ query: 'auth' }), ToolError);
+  });
+});
+
+describe('loadSkills', () => {
+  it('should register skills whose required servers are loaded', async () => {
+    const { loadSkills, getSkill } = await import('../../src/skills/index.js');
+
+    const server = await loadSkills([
+      { name: 'qdrant-rag', description: 'Qdrant', version: '1.0.0', tools: ['search'] }
+    ]);
+
+    assert.ok(server?.tools.includes('knowledgeDigest'));
+    assert.equal(getSkill('knowledge-digest')?.toolName, 'skills__knowledge_digest');
+  });
+
+  it('should skip skills with missing required servers', async () => {
+    const { loadSkills, getSkill } = await import('../../src/skills/index.js');
+
+    const server = await loadSkills([
+      { name: 'youtube', description: 'YouTube', version: '2.0.0', tools: ['getLatestVideos'] }
+    ]);
+
+    assert.equal(server, null);
+    assert.equal(getSkill('knowledge-digest'), undefined);
+  });
+});
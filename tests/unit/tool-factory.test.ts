@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+
+describe('createTool', () => {
+  describe('tool context', () => {
+    it('should forward reportProgress to execute', async () => {
+      const { createTool } = await import('../../src/utils/tool-factory.js');
+      const progress: Array<[number, number | undefined, string | undefined]> = [];
+
+      const tool = createTool({
+        name: 'test__progress',
+        input: z.object({ steps: z.number() }),
+        output: z.object({ done: z.boolean() }),
+        execute: async (input, context) => {
+          for (let i = 1; i <= input.steps; i++) {
+            await context.reportProgress(i, input.steps, `step ${i}`);
+          }
+          return { done: true };
+        }
+      });
+
+      await tool.call({ steps: 2 }, {
+        reportProgress: async (current, total, message) => { progress.push([current, total, message]); }
+      });
+
+      assert.deepEqual(progress, [[1, 2, 'step 1'], [2, 2, 'step 2']]);
+    });
+
+    it('should default reportProgress to a no-op', async () => {
+      const { createTool } = await import('../../src/utils/tool-factory.js');
+
+      const tool = createTool({
+        name: 'test__noop_progress',
+        input: z.object({}),
+        output: z.object({ done: z.boolean() }),
+        execute: async (_input, context) => {
+          await context.reportProgress(1, 1);
+          return { done: true };
+        }
+      });
+
+      const result = await tool.call({});
+      assert.equal(result.done, true);
+    });
+  });
+
+  describe('validation errors', () => {
+    const buildTool = async (result: unknown) => {
+      const { createTool } = await import('../../src/utils/tool-factory.js');
+      return createTool({
+        name: 'test__validation',
+        input: z.object({ limit: z.number().max(10).optional().default(5) }),
+        output: z.object({ count: z.number() }),
+        execute: async () => result as { count: number }
+      });
+    };
+
+    it('should fill defaults before execute', async () => {
+      const { createTool } = await import('../../src/utils/tool-factory.js');
+      const tool = createTool({
+        name: 'test__defaults',
+        input: z.object({ limit: z.number().optional().default(5) }),
+        output: z.object({ count: z.number() }),
+        execute: async (input) => ({ count: input.limit })
+      });
+      const result = await tool.call({});
+      assert.equal(result.count, 5);
+    });
+
+    it('should raise ToolValidationError with input issues', async () => {
+      const { ToolValidationError } = await import('../../src/types/index.js');
+      const tool = await buildTool({ count: 1 });
+
+      await assert.rejects(tool.call({ limit: 100 }), (error: any) => {
+        assert.ok(error instanceof ToolValidationError);
+        assert.equal(error.phase, 'input');
+        assert.equal(error.issues[0].path, 'limit');
+        assert.equal(error.retryable, false);
+        return true;
+      });
+    });
+
+    it('should raise ToolValidationError for invalid output', async () => {
+      const { ToolValidationError } = await import('../../src/types/index.js');
+      const tool = await buildTool({ count: 'not a number' });
+
+      await assert.rejects(tool.call({}), (error: any) => {
+        assert.ok(error instanceof ToolValidationError);
+        assert.equal(error.phase, 'output');
+        return true;
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const TECH_ID = 'UCaaaaaaaaaaaaaaaaaaaaaa';
+
+const channels = [
+  { id: TECH_ID, title: 'Tech Weekly' },
+  { id: 'UCbbbbbbbbbbbbbbbbbbbbbb', title: 'Rust Daily' },
+  { id: 'UCcccccccccccccccccccccc', title: 'Lo-fi Beats' },
+  { id: 'UCdddddddddddddddddddddd', title: 'Gaming Shorts' }
+];
+
+describe('YouTube channel selection', () => {
+  it('should match channel IDs, regexes and title globs', async () => {
+    const { compilePattern } = await import('../../src/servers/youtube/channels.js');
+
+    assert.equal(compilePattern(TECH_ID)(channels[0]), true);
+    assert.equal(compilePattern(TECH_ID)(channels[1]), false);
+    assert.equal(compilePattern('/rust|golang/i')(channels[1]), true);
+    assert.equal(compilePattern('*shorts*')(channels[3]), true);
+    assert.equal(compilePattern('lo-fi beats')(channels[2]), true);
+    assert.equal(compilePattern('Tech')(channels[0]), false);
+  });
+
+  it('should apply top-level lists and then the group', async () => {
+    const { selectChannels, channelGroupsOf } = await import('../../src/servers/youtube/channels.js');
+    const groups = {
+      exclude: ['*shorts*'],
+      groups: {
+        tech: { include: [TECH_ID, '/rust/i'] },
+        music: { include: ['*beats*'] }
+      }
+    };
+
+    assert.deepEqual(selectChannels(channels, groups).map(ch => ch.title), ['Tech Weekly', 'Rust Daily', 'Lo-fi Beats']);
+    assert.deepEqual(selectChannels(channels, groups, 'tech').map(ch => ch.title), ['Tech Weekly', 'Rust Daily']);
+    assert.deepEqual(channelGroupsOf(channels[2], groups), ['music']);
+    assert.throws(() => selectChannels(channels, groups, 'news'), /Unknown channel group "news". Available: tech, music/);
+  });
+
+  describe('loadChannelGroups', () => {
+    let dir: string;
+
+    before(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'devrk-youtube-channels-'));
+    });
+
+    after(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should treat a missing file as no filters', async () => {
+      const { loadChannelGroups, selectChannels } = await import('../../src/servers/youtube/channels.js');
+      const groups = await loadChannelGroups(join(dir, 'missing.json'));
+
+      assert.deepEqual(groups, {});
+      assert.equal(selectChannels(channels, groups).length, channels.length);
+    });
+
+    it('should load groups from JSON', async () => {
+      const { loadChannelGroups } = await import('../../src/servers/youtube/channels.js');
+      const path = join(dir, 'groups.json');
+      await writeFile(path, JSON.stringify({ groups: { tech: { include: ['Tech Weekly'] } } }));
+
+      assert.deepEqual(await loadChannelGroups(path), { groups: { tech: { include: ['Tech Weekly'] } } });
+    });
+
+    it('should reject invalid files and patterns', async () => {
+      const { loadChannelGroups } = await import('../../src/servers/youtube/channels.js');
+      const badShape = join(dir, 'bad-shape.json');
+      const badPattern = join(dir, 'bad-pattern.json');
+      await writeFile(badShape, JSON.stringify({ groups: { tech: { include: 'Tech' } } }));
+      await writeFile(badPattern, JSON.stringify({ exclude: ['/(unclosed/'] }));
+
+      await assert.rejects(loadChannelGroups(badShape), /Invalid channel groups file/);
+      await assert.rejects(loadChannelGroups(badPattern), /Invalid channel pattern "\/\(unclosed\/"/);
+    });
+  });
+
+  it('should expose youtube__list_subscriptions', async () => {
+    const { listSubscriptions } = await import('../../src/servers/youtube/listSubscriptions.js');
+    assert.equal(listSubscriptions.name, 'youtube__list_subscriptions');
+    assert.deepEqual(listSubscriptions.inputSchema.parse({}), { includeDescriptions: false });
+  });
+});
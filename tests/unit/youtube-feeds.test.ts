@@ -0,0 +1,97 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns:yt="http://www.youtube.com/xml/schemas/2015" xmlns:media="http://search.yahoo.com/mrss/" xmlns="http://www.w3.org/2005/Atom">
+ <yt:channelId>UC123</yt:channelId>
+ <title>Test Channel</title>
+ <author>
+  <name>Test Channel</name>
+ </author>
+ <entry>
+  <id>yt:video:old</id>
+  <yt:videoId>old</yt:videoId>
+  <yt:channelId>UC123</yt:channelId>
+  <title>Older video</title>
+  <author><name>Test Channel</name></author>
+  <published>2026-03-01T08:00:00+00:00</published>
+  <media:group>
+   <media:thumbnail url="https://i.ytimg.com/vi/old/hqdefault.jpg" width="480" height="360"/>
+   <media:description>First line
+second line</media:description>
+  </media:group>
+ </entry>
+ <entry>
+  <id>yt:video:new</id>
+  <yt:videoId>new</yt:videoId>
+  <yt:channelId>UC123</yt:channelId>
+  <title>Tips &amp; tricks &#39;26</title>
+  <author><name>Test Channel</name></author>
+  <published>2026-03-02T08:00:00+00:00</published>
+  <media:group>
+   <media:thumbnail url="https://i.ytimg.com/vi/new/hqdefault.jpg" width="480" height="360"/>
+   <media:description></media:description>
+  </media:group>
+ </entry>
+</feed>`;
+
+describe('YouTube channel feeds', () => {
+  it('should parse entries into videos, newest first', async () => {
+    const { parseChannelFeed } = await import('../../src/servers/youtube/feeds.js');
+    const videos = parseChannelFeed(FEED);
+
+    assert.deepEqual(videos.map(video => video.videoId), ['new', 'old']);
+    assert.deepEqual(videos[1], {
+      videoId: 'old',
+      title: 'Older video',
+      description: 'First line\nsecond line',
+      publishedAt: '2026-03-01T08:00:00+00:00',
+      channelId: 'UC123',
+      channelTitle: 'Test Channel',
+      thumbnail: 'https://i.ytimg.com/vi/old/hqdefault.jpg'
+    });
+    assert.equal(videos[0].title, "Tips & tricks '26");
+    assert.equal(videos[0].description, '');
+  });
+
+  it('should reject documents that are not feeds', async () => {
+    const { parseChannelFeed } = await import('../../src/servers/youtube/feeds.js');
+    assert.throws(() => parseChannelFeed('<html><body>Consent</body></html>'), /Not an Atom feed/);
+  });
+
+  describe('fetchChannelFeed', () => {
+    let server: Server;
+    let baseUrl: string;
+    const requested: string[] = [];
+
+    before(async () => {
+      server = createServer((req, res) => {
+        const channelId = new URL(req.url || '', 'http://localhost').searchParams.get('channel_id') || '';
+        requested.push(channelId);
+        res.writeHead(channelId === 'UC123' ? 200 : 404, { 'Content-Type': 'application/atom+xml' });
+        res.end(channelId === 'UC123' ? FEED : '');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/feeds/videos.xml`;
+    });
+
+    after(() => {
+      server.close();
+    });
+
+    it('should request the channel feed from the configured base URL', async () => {
+      const { fetchChannelFeed } = await import('../../src/servers/youtube/feeds.js');
+      const videos = await fetchChannelFeed('UC123', undefined, baseUrl);
+
+      assert.equal(videos.length, 2);
+      assert.equal(requested.at(-1), 'UC123');
+    });
+
+    it('should throw on HTTP errors', async () => {
+      const { fetchChannelFeed } = await import('../../src/servers/youtube/feeds.js');
+      await assert.rejects(fetchChannelFeed('UCmissing', undefined, baseUrl), /YouTube feed error: 404/);
+    });
+  });
+});
@@ -15,6 +15,16 @@ describe('YouTube getLatestVideos', () => {
       assert.equal(parsed.maxChannels, 50);
       assert.equal(parsed.sendEmail, false);
       assert.equal(parsed.hoursBack, undefined);
+      assert.equal(parsed.sinceLastRun, false);
+      assert.equal(parsed.strategy, 'api');
+      assert.equal(parsed.group, undefined);
+    });
+
+    it('should reject unknown fetch strategies', async () => {
+      const { getLatestVideos } = await import('../../src/servers/youtube/getLatestVideos.js');
+      assert.throws(() => {
+        getLatestVideos.inputSchema.parse({ strategy: 'rss' });
+      });
     });
 
     it('should accept valid input with hoursBack', async () => {
@@ -46,6 +56,31 @@ describe('YouTube getLatestVideos', () => {
     });
   });
 
+  describe('channelCutoffDate', () => {
+    const hours = (n: number) => n * 60 * 60 * 1000;
+
+    it('should start 6 hours before the last run, or use hoursBack without one', async () => {
+      const { channelCutoffDate } = await import('../../src/servers/youtube/getLatestVideos.js');
+      const lastRunAt = new Date('2026-03-01T12:00:00Z');
+      const hoursBack = new Date('2026-02-20T00:00:00Z');
+
+      assert.deepEqual(channelCutoffDate(lastRunAt, null), new Date(lastRunAt.getTime() - hours(6)));
+      assert.equal(channelCutoffDate(null, hoursBack), hoursBack);
+      assert.equal(channelCutoffDate(null, null), null);
+    });
+
+    it('should use the later cutoff when hoursBack and the last run are both set', async () => {
+      const { channelCutoffDate } = await import('../../src/servers/youtube/getLatestVideos.js');
+      const lastRunAt = new Date('2026-03-01T12:00:00Z');
+
+      const recent = new Date('2026-03-01T10:00:00Z');
+      assert.deepEqual(channelCutoffDate(lastRunAt, recent), recent);
+
+      const old = new Date('2026-02-01T00:00:00Z');
+      assert.deepEqual(channelCutoffDate(lastRunAt, old), new Date(lastRunAt.getTime() - hours(6)));
+    });
+  });
+
   describe('output schema validation', () => {
     it('should validate correct output shape', async () => {
       const { getLatestVideos } = await import('../../src/servers/youtube/getLatestVideos.js');
@@ -68,11 +103,18 @@ describe('YouTube getLatestVideos', () => {
         totalVideos: 1,
         totalChannels: 1,
         summary: 'Found 1 video from 1 channel',
-        emailSent: false
+        emailSent: false,
+        cache: {
+          transcripts: { hits: 1, misses: 0 },
+          summaries: { hits: 0, misses: 1 }
+        },
+        quota: { unitsUsed: 2, dailyUnitsUsed: 40, dailyLimit: 10000, exhausted: false, channelsNotProcessed: 0 },
+        deadline: { reached: false, channelsNotProcessed: 0 }
       };
       const parsed = getLatestVideos.outputSchema.parse(validOutput);
       assert.equal(parsed.totalVideos, 1);
       assert.equal(parsed.channels[0].videos[0].summarySource, 'transcript');
+      assert.equal(parsed.cache.transcripts.hits, 1);
     });
   });
 });
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('YouTube quota tracking', () => {
+  it('should count units per run and stop before the reserve', async () => {
+    const { QuotaTracker, QuotaExhaustedError } = await import('../../src/servers/youtube/quota.js');
+    const start = new QuotaTracker().dailyUsed;
+    const quota = new QuotaTracker(start + 10, 7);
+
+    quota.spend('subscriptions.list');
+    quota.spend('playlistItems.list');
+    quota.spend('videos.list');
+    assert.throws(() => quota.spend('playlistItems.list'), QuotaExhaustedError);
+
+    assert.deepEqual(quota.summary(), {
+      unitsUsed: 3,
+      dailyUnitsUsed: start + 3,
+      dailyLimit: start + 10,
+      exhausted: true
+    });
+  });
+
+  it('should share daily usage between runs', async () => {
+    const { QuotaTracker } = await import('../../src/servers/youtube/quota.js');
+    const first = new QuotaTracker();
+    const second = new QuotaTracker();
+    const before = second.dailyUsed;
+
+    first.spend('videos.list');
+
+    assert.equal(second.dailyUsed, before + 1);
+    assert.equal(second.used, 0);
+  });
+
+  it('should not call the API once the quota is exhausted', async () => {
+    const { QuotaTracker, callYouTube } = await import('../../src/servers/youtube/quota.js');
+    const quota = new QuotaTracker(0, 0);
+    let called = false;
+
+    await assert.rejects(callYouTube(quota, 'videos.list', new AbortController().signal, async () => { called = true; }), /quota nearly exhausted/);
+    assert.equal(called, false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('YouTube digest state', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devrk-youtube-state-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const { DigestStateStore } = await import('../../src/servers/youtube/state.js');
+    const store = new DigestStateStore(join(dir, 'missing.json'));
+
+    assert.deepEqual(await store.load(), { channels: {}, delivered: {} });
+    assert.equal(store.isDelivered('v1'), false);
+    assert.equal(store.lastRunAt('UC1'), null);
+  });
+
+  it('should persist delivered videos and channel run times', async () => {
+    const { DigestStateStore } = await import('../../src/servers/youtube/state.js');
+    const path = join(dir, 'nested', 'state.json');
+    const runAt = new Date('2026-03-01T08:00:00Z');
+
+    await new DigestStateStore(path).markDelivered(['v1', 'v2'], ['UC1'], runAt);
+
+    const reloaded = new DigestStateStore(path);
+    await reloaded.load();
+    assert.equal(reloaded.isDelivered('v1'), true);
+    assert.equal(reloaded.isDelivered('v3'), false);
+    assert.deepEqual(reloaded.lastRunAt('UC1'), runAt);
+  });
+
+  it('should merge with runs that wrote in the meantime', async () => {
+    const { DigestStateStore } = await import('../../src/servers/youtube/state.js');
+    const path = join(dir, 'merge.json');
+    const first = new DigestStateStore(path);
+    const second = new DigestStateStore(path);
+    await first.load();
+    await second.load();
+
+    await first.markDelivered(['a'], ['UC1'], new Date('2026-03-01T10:00:00Z'));
+    await second.markDelivered(['b'], ['UC1'], new Date('2026-03-01T09:00:00Z'));
+
+    const saved = JSON.parse(await readFile(path, 'utf-8'));
+    assert.deepEqual(Object.keys(saved.delivered).sort(), ['a', 'b']);
+    // An older run never moves lastRunAt back
+    assert.equal(saved.channels.UC1.lastRunAt, '2026-03-01T10:00:00.000Z');
+  });
+
+  it('should forget deliveries past the retention window', async () => {
+    const { DigestStateStore } = await import('../../src/servers/youtube/state.js');
+    const path = join(dir, 'retention.json');
+    await writeFile(path, JSON.stringify({ channels: {}, delivered: { old: '2025-01-01T00:00:00.000Z' } }));
+
+    await new DigestStateStore(path).markDelivered(['new'], [], new Date('2026-03-01T00:00:00Z'));
+
+    const saved = JSON.parse(await readFile(path, 'utf-8'));
+    assert.deepEqual(Object.keys(saved.delivered), ['new']);
+  });
+
+  it('should let only one run hold the lock until it is released', async () => {
+    const { DigestStateStore } = await import('../../src/servers/youtube/state.js');
+    const path = join(dir, 'lock', 'state.json');
+    const first = new DigestStateStore(path);
+    const second = new DigestStateStore(path);
+
+    await first.acquireLock(60_000);
+    await assert.rejects(second.acquireLock(60_000), /Another sinceLastRun digest is running/);
+
+    await first.releaseLock();
+    await second.acquireLock(60_000);
+    await second.releaseLock();
+  });
+
+  it('should take over a lock older than staleAfterMs', async () => {
+    const { DigestStateStore } = await import('../../src/servers/youtube/state.js');
+    const path = join(dir, 'stale.json');
+    await writeFile(`${path}.lock`, '{}');
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await utimes(`${path}.lock`, longAgo, longAgo);
+
+    const store = new DigestStateStore(path);
+    await store.acquireLock(60_000);
+    await store.releaseLock();
+  });
+});
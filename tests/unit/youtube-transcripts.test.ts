@@ -0,0 +1,123 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FakeQdrant } from '../helpers/fake-qdrant.js';
+
+const segment = (text: string, start: number, duration = 2) => ({ text, start, duration });
+
+describe('YouTube transcripts', () => {
+  describe('chunkTranscript', () => {
+    it('should keep whole segments and their time range', async () => {
+      const { chunkTranscript } = await import('../../src/servers/youtube/transcripts.js');
+      const segments = Array.from({ length: 10 }, (_, i) => segment(`segment number ${i}`, i * 5));
+
+      const chunks = chunkTranscript(segments, { chunkSize: 60, chunkOverlap: 0 });
+
+      assert.equal(chunks[0].content, 'segment number 0 segment number 1 segment number 2');
+      assert.equal(chunks[0].start, 0);
+      assert.equal(chunks[0].end, 12);
+      assert.equal(chunks[1].start, 15);
+      assert.equal(chunks.map(chunk => chunk.content).join(' '), segments.map(s => s.text).join(' '));
+    });
+
+    it('should repeat trailing segments as overlap', async () => {
+      const { chunkTranscript } = await import('../../src/servers/youtube/transcripts.js');
+      const segments = Array.from({ length: 10 }, (_, i) => segment(`segment number ${i}`, i * 5));
+
+      const chunks = chunkTranscript(segments, { chunkSize: 60, chunkOverlap: 20 });
+
+      assert.ok(chunks[1].content.startsWith('segment number 2'));
+      assert.equal(chunks[1].start, 10);
+      assert.ok(chunks[chunks.length - 1].content.endsWith('segment number 9'));
+    });
+
+    it('should emit a segment longer than chunkSize as its own chunk', async () => {
+      const { chunkTranscript } = await import('../../src/servers/youtube/transcripts.js');
+      const chunks = chunkTranscript([segment('x'.repeat(300), 0), segment('short', 3)], { chunkSize: 100, chunkOverlap: 10 });
+
+      assert.deepEqual(chunks.map(chunk => chunk.content.length), [300, 5]);
+    });
+  });
+
+  it('should build watch URLs with a start second', async () => {
+    const { watchUrl } = await import('../../src/servers/youtube/transcripts.js');
+    assert.equal(watchUrl('abc123DEF45'), 'https://www.youtube.com/watch?v=abc123DEF45');
+    assert.equal(watchUrl('abc123DEF45', 0.4), 'https://www.youtube.com/watch?v=abc123DEF45');
+    assert.equal(watchUrl('abc123DEF45', 95.7), 'https://www.youtube.com/watch?v=abc123DEF45&t=95');
+  });
+
+  describe('ingest tool schema validation', () => {
+    it('should require exactly one video source', async () => {
+      const { ingestTranscripts } = await import('../../src/servers/youtube/ingestTranscripts.js');
+      assert.equal(ingestTranscripts.name, 'youtube__ingest_transcripts');
+
+      assert.ok(ingestTranscripts.inputSchema.parse({ videoIds: ['abc123DEF45'] }));
+      assert.ok(ingestTranscripts.inputSchema.parse({ channelId: 'UCxxxxxxxx' }));
+      assert.throws(() => ingestTranscripts.inputSchema.parse({}));
+      assert.throws(() => ingestTranscripts.inputSchema.parse({ videoIds: ['a'], channelId: 'UCxxxxxxxx' }));
+      assert.throws(() => ingestTranscripts.inputSchema.parse({ channelId: 'xx' }));
+    });
+
+    it('should accept channels from a latest-videos result', async () => {
+      const { ingestTranscripts } = await import('../../src/servers/youtube/ingestTranscripts.js');
+      const parsed = ingestTranscripts.inputSchema.parse({
+        channels: [{
+          channel: { id: 'UC1', title: 'Channel', thumbnail: '' },
+          videos: [{ videoId: 'abc123DEF45', title: 'Video', summary: 'ignored', channelTitle: 'Channel' }]
+        }]
+      });
+      assert.deepEqual(parsed.channels![0].videos[0], { videoId: 'abc123DEF45', title: 'Video', channelTitle: 'Channel' });
+    });
+  });
+
+  describe('ingest', () => {
+    const qdrant = new FakeQdrant();
+    let cacheDir: string;
+
+    before(async () => {
+      const { config } = await import('../../src/config.js');
+      cacheDir = await mkdtemp(join(tmpdir(), 'devrk-transcripts-'));
+      config.cache.enabled = true;
+      config.cache.dir = cacheDir;
+      config.qdrant.url = await qdrant.start();
+      config.qdrant.embeddingProvider = 'fake';
+      config.qdrant.embeddingCacheDir = '';
+    });
+
+    after(async () => {
+      await qdrant.stop();
+      await rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should stop a transcript fetch once the signal aborts', async () => {
+      const { fetchTranscriptSegments } = await import('../../src/servers/youtube/transcripts.js');
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+
+      await assert.rejects(fetchTranscriptSegments('notCached123', { signal: controller.signal }), /cancelled/);
+    });
+
+    it('should delete trailing chunks when a video is re-chunked into fewer', async () => {
+      const { getTranscriptCache } = await import('../../src/servers/youtube/transcripts.js');
+      const { PersistentCache } = await import('../../src/utils/persistent-cache.js');
+      const { ingestTranscripts } = await import('../../src/servers/youtube/ingestTranscripts.js');
+      const segments = Array.from({ length: 20 }, (_, i) => segment(`caption segment number ${i}`, i * 5));
+      await getTranscriptCache().set(PersistentCache.key('vid00000001', ''), segments);
+
+      const channels = [{ videos: [{ videoId: 'vid00000001', title: 'Video' }] }];
+      const first = await ingestTranscripts.call({ channels, collection: 'yt', chunkSize: 100, chunkOverlap: 0 });
+      assert.ok(first.chunks > 2);
+
+      const second = await ingestTranscripts.call({ channels, collection: 'yt', chunkSize: 8000, chunkOverlap: 0 });
+      assert.equal(second.chunks, 1);
+      assert.deepEqual(second.transcriptCache, { hits: 1, misses: 0 });
+
+      const stored = qdrant.points('yt');
+      assert.equal(stored.length, 1);
+      assert.equal(stored[0].payload.documentId, 'youtube:vid00000001');
+      assert.equal(stored[0].payload.chunkCount, 1);
+    });
+  });
+});